@@ -160,6 +160,24 @@ const content = {
     onwarn: commonWarningHandler,
 };
 
+/*
+  shadow-hook.js
+  - runs in the page's world, so it must not share code with content.js at runtime
+*/
+const shadowHook = {
+    input: 'src/shadow-hook.ts',
+    treeshake: {
+        moduleSideEffects: [],
+    },
+    output: {
+        file: 'dist/chrome/shadow-hook.js',
+        ...commonOutput,
+        format: 'iife', // always iife as this code is injected into the page and not imported
+    },
+    plugins: commonPlugins,
+    onwarn: commonWarningHandler,
+};
+
 /*
   popup.js
 */
@@ -181,6 +199,48 @@ const popup = {
     onwarn: commonWarningHandler,
 };
 
+/*
+  history-page.js
+*/
+const historyPage = {
+    input: 'src/history-page.ts',
+    output: {
+        file: 'dist/chrome/history-page.js',
+        ...commonOutput,
+    },
+    plugins: [
+        copy({
+            targets: [
+                { src: 'public/history.html', dest: 'dist/chrome' },
+                { src: 'public/history.css', dest: 'dist/chrome' },
+            ],
+        }),
+        ...commonPlugins,
+    ],
+    onwarn: commonWarningHandler,
+};
+
+/*
+  options.js
+*/
+const optionsPage = {
+    input: 'src/options.ts',
+    output: {
+        file: 'dist/chrome/options.js',
+        ...commonOutput,
+    },
+    plugins: [
+        copy({
+            targets: [
+                { src: 'public/options.html', dest: 'dist/chrome' },
+                { src: 'public/options.css', dest: 'dist/chrome' },
+            ],
+        }),
+        ...commonPlugins,
+    ],
+    onwarn: commonWarningHandler,
+};
+
 /*
   offscreen.js (for Chrome)
 */
@@ -235,7 +295,10 @@ popup.plugins.push(duplicateFirefox);
 export default [
     background_chrome,
     content,
+    shadowHook,
     offscreen,
+    historyPage,
+    optionsPage,
     popup,
     background_firefox,
 ];
@@ -3,29 +3,64 @@
 import { debug } from './xpoc-lib';
 
 import { getLocalStorage, setLocalStorage } from './storage.js';
-import { lookupTrustUri, type lookupTrustUriResult } from './xpoc-lib.js';
-import { contextMenuRequest, clickedText } from './context.js';
+import {
+    clearTrustTxtCache,
+    lookupTrustUri,
+    resolveTrustGraph,
+    type lookupTrustUriOptions,
+    type lookupTrustUriResult,
+} from './xpoc-lib.js';
+import { aggregateResults, getActionTitle, getBadgeText, type VerdictLevel } from './verdict.js';
+import { contextMenuRequest } from './context.js';
+import { addHistoryEntry, createHistoryEntry } from './history.js';
+import { getSettings, getValidatorEndpoint, SETTINGS_KEYS, type Settings } from './settings.js';
+import { checkSignatureDowngrade } from './signature.js';
+import { getHost } from './domain.js';
 
 // define icon types (checkmark, invalid, warning, and unknown)
 const CHECKMARK_TYPE = 'icons/valid128x128.png';
 const INVALID_TYPE = 'icons/invalid128x128.png';
 const WARNING_TYPE = 'icons/warning128x128.png';
 const UNKNOWN_TYPE = 'icons/unknown128x128.png';
+// badge colors, matching the icons
+const BADGE_COLORS: Record<VerdictLevel, string> = {
+    valid: '#5B9BD5',
+    warning: '#F5C343',
+    invalid: '#E43A19',
+    unknown: '#808080',
+};
+/*
+    Represents a stored trust URI lookup, with the time it was checked (ms since epoch)
+*/
+export type storedTrustResult = lookupTrustUriResult & { checkedAt?: number };
 /*
     Represents a result set for a trust URI lookup
 */
 export type trustResultSet = {
     [url: string]: {
-        [trustUri: string]: lookupTrustUriResult;
+        [trustUri: string]: storedTrustResult;
     };
 };
 /*
-    Runs only when the extension is installed for the first time.
+    The page URL of each tab with stored results, so they can be cleared when the tab navigates or closes
+*/
+type tabUrlSet = {
+    [tabId: string]: string;
+};
+// the association that signed the trust.txt file of each domain, kept in chrome.storage.local
+type signerSet = {
+    [domain: string]: string;
+};
+/*
+    Sends the settings to the content scripts of every tab whenever they change, so running pages
+    apply them at once. Settings that are not stored yet use the defaults of settings.ts.
 */
-chrome.runtime.onInstalled.addListener(function (details) {
-    if (details.reason === 'install') {
-        chrome.storage.local.set({ autoVerifyTrustUris: true });
+chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'local' || !Object.keys(changes).some((key) => (SETTINGS_KEYS as string[]).includes(key))) {
+        return;
     }
+    if (debug) { console.log('Validator - storage.onChanged:', Object.keys(changes)); }
+    getSettings().then((settings) => broadcastSettings(settings));
 });
 
 /*
@@ -35,10 +70,33 @@ chrome.runtime.onMessage.addListener(function (message, sender, sendResponse) {
     if (message.action === 'lookupTrustUri') {
         if (debug) { console.log('Validator - onMessage.addListener: message = lookupTrustUri'); }
         const trustUri = message.trustUri;
-        const tabUrl = (sender.tab as chrome.tabs.Tab).url as string;
-        lookupTrustUri(sender.tab?.url as string, trustUri).then((result) => {
-            storeTrustResult(tabUrl as string, clickedText, result);
-            sendResponse(result);
+        const tab = sender.tab as chrome.tabs.Tab;
+        const tabUrl = tab.url as string;
+        getLookupOptions()
+            .then((options) => lookupTrustUri(tabUrl, trustUri, options))
+            .then((result) => checkSignatureHistory(trustUri, result))
+            // a lookup that throws is answered like any failed lookup, so the content script is not left waiting
+            .catch((error): lookupTrustUriResult => ({ type: 'error', baseurl: trustUri, message: String(error?.message ?? error) }))
+            .then((result) => {
+                storeTrustResult(tab.id, tabUrl, trustUri, result);
+                sendResponse(result);
+            });
+    }
+    if (message.action === 'resolveTrustGraph') {
+        if (debug) { console.log('Validator - onMessage.addListener: message = resolveTrustGraph'); }
+        getLookupOptions()
+            .then(({ timeout, cacheMaxAge }) => resolveTrustGraph(message.trustUri, { ...message.options, timeout, cacheMaxAge }))
+            .then((result) => {
+                sendResponse(result);
+            })
+            .catch((error) => {
+                sendResponse({ type: 'error', baseurl: message.trustUri, message: String(error?.message ?? error) });
+            });
+    }
+    if (message.action === 'clearTrustTxtCache') {
+        if (debug) { console.log('Validator - onMessage.addListener: message = clearTrustTxtCache'); }
+        clearTrustTxtCache().then(() => {
+            sendResponse();
         });
     }
     return true;
@@ -52,54 +110,115 @@ contextMenuRequest(async (info, clickedText, tab) => {
     if (info.menuItemId === 'verifyTrustUri') {
         const tabUrl = (tab as chrome.tabs.Tab).url as string;
         const trustUrl = clickedText;
-        const result = await lookupTrustUri(tabUrl, trustUrl);
-        if (result.type === 'account' || result.type === 'multiple') {
-            await storeTrustResult(tabUrl as string, trustUrl, result);
-        }
+        const result = await checkSignatureHistory(trustUrl, await lookupTrustUri(tabUrl, trustUrl, await getLookupOptions()));
+        // failures are stored too: they take part in the page verdict
+        await storeTrustResult(tab?.id, tabUrl as string, trustUrl, result);
         return result;
     }
 });
 
-/* 
-   Event listener triggered when a tab is activated in the browser. 
+/*
+    A tab that starts loading a page shows none of the previous page's results.
 */
-chrome.tabs.onActivated.addListener((activeInfo) => {
-    // activeInfo.tabId will give you the ID of the newly activated tab
-    if (debug) { console.log('Validator - onActivated.addListener: Tab', activeInfo.tabId, 'was activated'); }
-    // display the default icon first
-    updateActionIcon(UNKNOWN_TYPE);
-    // You can retrieve more information about the tab using chrome.tabs.get
-    chrome.tabs.get(activeInfo.tabId, function (tab) {
-        if (debug) { console.log('Validator - onActivated.addListener: The active tab\'s URL is', tab.url); }
-        // check if we have an origin result for this url
-        getLocalStorage('trustResults').then((storageObj) => {
-            const currentTabUrl = tab.url as string;
-            if (storageObj.trustResults[currentTabUrl]) {
-                if (debug) { console.log('Validator - onActivated.addListener: Found results for', currentTabUrl); }
-                // we already have a result for this url, so update the icon
-                const trustResult = storageObj.trustResults[currentTabUrl] as {
-                    [trustUri: string]: lookupTrustUriResult;
-                };
-                if (debug) { console.log('Validator - onActivated.addListener: trustResult', JSON.stringify(trustResult)); }
-                const result = trustResult[Object.keys(trustResult)[0]];
-                if (result.type === 'account') {
-                    updateActionIcon(CHECKMARK_TYPE);
-                } else if (result.type === 'multiple') {
-                    updateActionIcon(getIconType(result.list));
-                } else if (result.type === 'notFound' || result.type === 'error') {
-                    updateActionIcon(INVALID_TYPE);
-                }
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+    if (changeInfo.status !== 'loading') {
+        return;
+    }
+    if (debug) { console.log('Validator - onUpdated.addListener: Tab', tabId, 'is loading', changeInfo.url); }
+    releaseTab(tabId).then(() => updateActionState(tabId, {}));
+});
+
+/*
+    Results are only kept while a tab shows their page.
+*/
+chrome.tabs.onRemoved.addListener((tabId) => {
+    if (debug) { console.log('Validator - onRemoved.addListener: Tab', tabId, 'was closed'); }
+    releaseTab(tabId);
+});
+
+/*
+    Single-page applications change the URL of a tab without loading a page (history.pushState,
+    fragment changes): the results of the previous view are stale, and every frame scans the new view.
+*/
+chrome.webNavigation.onHistoryStateUpdated.addListener(onSameDocumentNavigation);
+chrome.webNavigation.onReferenceFragmentUpdated.addListener(onSameDocumentNavigation);
+
+/**
+ * Clears the results of a tab whose URL changed without a page load, and tells its content scripts.
+ * @param details - The navigation.
+ */
+function onSameDocumentNavigation(details: chrome.webNavigation.WebNavigationTransitionCallbackDetails): void {
+    if (details.frameId !== 0) {
+        return;
+    }
+    if (debug) { console.log('Validator - onSameDocumentNavigation: Tab', details.tabId, 'is now at', details.url); }
+    getLocalStorage('tabUrls')
+        .then(async ({ tabUrls }) => {
+            // history.replaceState is often called without changing the URL
+            if ((tabUrls as tabUrlSet)[details.tabId] === details.url) {
+                return;
             }
+            await releaseTab(details.tabId);
+            await updateActionState(details.tabId, {});
+            await chrome.tabs.sendMessage(details.tabId, { action: 'locationChanged', url: details.url });
+        })
+        .catch((error) => {
+            // the page has no content script, e.g. a browser page
+            if (debug) { console.log('Validator - onSameDocumentNavigation: not sent:', error); }
         });
+}
+
+/**
+ * Forgets the page of a tab, and clears its stored results unless another tab shows the same page.
+ * @param tabId - The tab.
+ * @returns A promise that resolves when the results are cleared.
+ */
+async function releaseTab(tabId: number): Promise<void> {
+    const { tabUrls } = (await getLocalStorage('tabUrls')) as { tabUrls: tabUrlSet };
+    const url = tabUrls[tabId];
+    if (url === undefined) {
+        return;
+    }
+    delete tabUrls[tabId];
+    const { trustResults } = (await getLocalStorage('trustResults')) as { trustResults: trustResultSet };
+    if (!Object.values(tabUrls).includes(url)) {
+        if (debug) { console.log('Validator - releaseTab: clearing results for', url); }
+        delete trustResults[url];
+    }
+    await setLocalStorage({ tabUrls, trustResults });
+}
+
+/**
+ * Shows the verdict of a tab's results on its toolbar button: the icon, a badge counting
+ * the trust URIs by level, and a tooltip describing each of them.
+ * @param tabId - The tab.
+ * @param results - The stored results of the tab's page.
+ * @returns A promise that resolves once the toolbar button is updated.
+ */
+async function updateActionState(tabId: number, results: { [trustUri: string]: storedTrustResult }): Promise<void> {
+    const verdict = aggregateResults(results);
+    if (debug) { console.log('Validator - updateActionState: tab', tabId, verdict.level); }
+    await Promise.all([
+        updateActionIcon(getVerdictIconType(verdict.level), tabId),
+        chrome.action.setBadgeText({ tabId, text: getBadgeText(verdict) }),
+        chrome.action.setBadgeBackgroundColor({ tabId, color: BADGE_COLORS[verdict.level] }),
+        chrome.action.setTitle({
+            tabId,
+            title: verdict.entries.length > 0 ? getActionTitle(verdict) : chrome.runtime.getManifest().name,
+        }),
+    ]).catch((error) => {
+        // the tab was closed while it was being checked
+        if (debug) { console.log('Validator - updateActionState: tab', tabId, 'not updated:', error); }
     });
-});
+}
 
 /**
- * Updates the action icon with the image located at the specified path.
+ * Updates the action icon of a tab with the image located at the specified path.
  * @param path - The path to the image.
+ * @param tabId - The tab whose icon is updated.
  * @returns A promise that resolves once the action icon is updated.
  */
-async function updateActionIcon(path: string) {
+async function updateActionIcon(path: string, tabId: number) {
     // code below from the Chrome Extension samples
     // There are easier ways for a page to extract an image's imageData, but the approach used here
     // works in both extension pages and service workers.
@@ -110,75 +229,128 @@ async function updateActionIcon(path: string) {
     const ctx = osc.getContext('2d');
     ctx?.drawImage(imageBitmap, 0, 0);
     const imageData = ctx?.getImageData(0, 0, osc.width, osc.height);
-    chrome.action.setIcon({ imageData });
+    await chrome.action.setIcon({ imageData, tabId });
 }
 
 /**
  * Stores the origin result for a given URL and trust URI.
  *
+ * @param tabId - The tab showing the URL, if any.
  * @param url - The URL for which the origin result is being stored.
  * @param trustUri - The trust URI for which the origin result is being stored.
  * @param result - The origin result to be stored.
  * @returns A Promise that resolves when the origin result is stored.
  */
 async function storeTrustResult(
+    tabId: number | undefined,
     url: string,
     trustUri: string,
     result: lookupTrustUriResult,
 ): Promise<void> {
     if (debug) { console.log('Validator - storeTrustResult: storing origin result for url', url, ', trustUri', trustUri, ', result', result); }
-    // update the toolbar icon
-    if (result.type === 'error' || result.type === 'notFound') {
-        // "notFound" in manifest is also an error
-        await updateActionIcon(INVALID_TYPE);
-    } else if (result.type === 'multiple') {
-        await updateActionIcon(getIconType(result.list));
-    } else {
-        await updateActionIcon(CHECKMARK_TYPE);   
+    const checkedAt = Date.now();
+    // keep an audit trail that outlives the session
+    const { historyLimit } = await getSettings();
+    const recorded = await addHistoryEntry(createHistoryEntry(url, trustUri, result, checkedAt), historyLimit);
+    if (recorded instanceof Error) {
+        if (debug) { console.log('Validator - storeTrustResult: history not recorded:', recorded.message); }
+    }
+    // a lookup that ends after its tab moved on belongs to a view that is no longer shown
+    if (tabId !== undefined && (await getTabUrl(tabId)) !== url) {
+        if (debug) { console.log('Validator - storeTrustResult: tab', tabId, 'left', url); }
+        return;
     }
     // store the result
     const trustResultsSet = (await getLocalStorage('trustResults')) as {
         trustResults: trustResultSet;
     };
     trustResultsSet.trustResults[url] = trustResultsSet.trustResults[url] || {};
-    trustResultsSet.trustResults[url][trustUri] = result;
+    trustResultsSet.trustResults[url][trustUri] = { ...result, checkedAt };
     await setLocalStorage(trustResultsSet);
+    if (tabId !== undefined) {
+        const { tabUrls } = (await getLocalStorage('tabUrls')) as { tabUrls: tabUrlSet };
+        await setLocalStorage({ tabUrls: { ...tabUrls, [tabId]: url } });
+        // update the toolbar button of the tab from every result of the page
+        await updateActionState(tabId, trustResultsSet.trustResults[url]);
+    }
 }
 /**
- * Returns the appropriate icon type based on multiple status results
+ * Returns the current URL of a tab.
+ * @param tabId - The tab.
+ * @returns A promise that resolves to the URL, or undefined if the tab was closed.
  */
-export function getIconType (list: [{status: string, domain: string, message: string}]) {
-    if (debug) { console.log('Validator - getIconType: list', list); }
-    let type = INVALID_TYPE;
-    let found = false;
-    let notfound = false;
-    let error = false;
-    for (const item of list) {
-        switch (item.status) {
-            case 'found':
-                found = true;
-                break;
-            case 'not found':
-                notfound = true;
-                break;
-            case 'error':
-                error = true;
-                break;
-        }
+async function getTabUrl(tabId: number): Promise<string | undefined> {
+    return chrome.tabs
+        .get(tabId)
+        .then((tab) => tab.url)
+        .catch(() => undefined);
+}
+
+/**
+ * Reads the lookup options from the extension settings.
+ * @returns A promise that resolves to the lookup options.
+ */
+async function getLookupOptions(): Promise<lookupTrustUriOptions> {
+    const settings = await getSettings();
+    return {
+        verifyReciprocal: settings.verifyReciprocal,
+        verifySignature: settings.verifySignature,
+        validatorEndpoint: getValidatorEndpoint(settings),
+        timeout: settings.fetchTimeout,
+        cacheMaxAge: settings.cacheMaxAge * 60 * 1000,
+        platformRules: settings.platformRules,
+    };
+}
+
+/**
+ * Remembers the association that signed each domain's trust.txt file, and flags a file of that domain
+ * that is no longer signed (see checkSignatureDowngrade).
+ * @param trustUri - The trust URI that was looked up.
+ * @param result - The lookup result.
+ * @returns A promise that resolves to the result, with its signature check flagged if needed.
+ */
+async function checkSignatureHistory(trustUri: string, result: lookupTrustUriResult): Promise<lookupTrustUriResult> {
+    const domain = getHost(trustUri);
+    if (result.type === 'error' || !result.signature || !domain) {
+        return result;
     }
-    if (debug) { console.log('Validator - getIconType: found', found, 'notfound', notfound, 'error', error); }
-    // If no corresponding attribute entry found, use 'error' icon 
-    if (!found) {
-        type = INVALID_TYPE;
-    } else {
-        // If a corresponding attribute entry is found and there are no 'not found' and 'error' status, use 'checkmark' icon
-        if (!notfound && !error) {
-            type = CHECKMARK_TYPE;
-        } else {
-            // Otherwise use 'warning' icon
-            type = WARNING_TYPE;
-        }
+    const { signedDomains = {} } = (await chrome.storage.local.get('signedDomains')) as { signedDomains?: signerSet };
+    const { status, signer } = result.signature;
+    if (status === 'signed' && signer && signedDomains[domain] !== signer) {
+        await chrome.storage.local.set({ signedDomains: { ...signedDomains, [domain]: signer } });
+    }
+    return { ...result, signature: checkSignatureDowngrade(result.signature, signedDomains[domain]) };
+}
+
+/**
+ * Sends the settings to the content scripts of every frame of every tab.
+ * @param settings - The settings.
+ * @returns A promise that resolves when the settings are sent.
+ */
+async function broadcastSettings(settings: Settings): Promise<void> {
+    const tabs = await chrome.tabs.query({});
+    await Promise.all(
+        tabs.map((tab) =>
+            tab.id === undefined
+                ? undefined
+                // pages without a content script, such as browser pages, do not answer
+                : chrome.tabs.sendMessage(tab.id, { action: 'settingsUpdated', settings }).catch(() => undefined),
+        ),
+    );
+}
+
+/**
+ * Returns the icon type for a page verdict
+ */
+function getVerdictIconType(level: VerdictLevel): string {
+    switch (level) {
+        case 'valid':
+            return CHECKMARK_TYPE;
+        case 'warning':
+            return WARNING_TYPE;
+        case 'invalid':
+            return INVALID_TYPE;
+        default:
+            return UNKNOWN_TYPE;
     }
-    if (debug) { console.log('Validator - getIconType: type', type); }
-    return (type)
-}
\ No newline at end of file
+}
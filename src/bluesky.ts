@@ -0,0 +1,110 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { getHost } from './domain';
+import {
+    parseWebUrl,
+    safeDecode,
+    type CanonicalAccount,
+    type PlatformMatcher,
+    type ResolverFetch,
+} from './platforms';
+
+export const BLUESKY_PLATFORM = 'Bluesky';
+
+const PLC_DIRECTORY = 'https://plc.directory';
+const DID_PATTERN = /^did:(plc|web):[a-zA-Z0-9._:%-]+$/;
+const HANDLE_PATTERN = /^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]([a-z0-9-]*[a-z0-9])?$/;
+const PROFILE_PATH_PATTERN = /^\/profile\/([^/]+)\/?$/;
+
+/**
+ * Normalizes an AT Protocol identifier: handles are lower-cased without a leading `@`,
+ * DIDs are kept as they are.
+ * @param identifier - A handle (e.g. `@Publisher.example`) or a DID (e.g. `did:plc:abc123`).
+ * @returns The normalized identifier, or undefined if the value is neither.
+ */
+export function normalizeAtprotoIdentifier(identifier: string): string | undefined {
+    const value = identifier.trim().replace(/^@/, '');
+    if (DID_PATTERN.test(value)) {
+        return value;
+    }
+    const handle = value.toLowerCase().replace(/\.$/, '');
+    return HANDLE_PATTERN.test(handle) ? handle : undefined;
+}
+
+/**
+ * Matches Bluesky profiles (`https://bsky.app/profile/<handle or DID>`) and `at://` URIs.
+ * The canonical account is the handle or DID; the two are tied together by resolve().
+ */
+export const blueskyMatcher: PlatformMatcher = {
+    name: BLUESKY_PLATFORM,
+    canonicalize: (url) => {
+        const identifier = getIdentifier(url);
+        return identifier ? { platform: BLUESKY_PLATFORM, account: identifier } : undefined;
+    },
+    resolve: async (account, fetch) => {
+        const did = account.account.startsWith('did:')
+            ? account.account
+            : await resolveHandle(account.account, fetch);
+        if (!did) {
+            return [account];
+        }
+        const handles = await resolveDidHandles(did, fetch);
+        return [account, ...[did, ...handles].map((identifier) => ({ platform: BLUESKY_PLATFORM, account: identifier }))];
+    },
+};
+
+function getIdentifier(url: string): string | undefined {
+    if (/^at:\/\//i.test(url)) {
+        return normalizeAtprotoIdentifier(url.slice('at://'.length).split('/')[0]);
+    }
+    const parsed = parseWebUrl(url);
+    if (!parsed || getHost(parsed.hostname) !== 'bsky.app') {
+        return undefined;
+    }
+    const match = PROFILE_PATH_PATTERN.exec(parsed.pathname);
+    const identifier = match && safeDecode(match[1]);
+    return identifier ? normalizeAtprotoIdentifier(identifier) : undefined;
+}
+
+/**
+ * Resolves a handle to its DID through `https://<handle>/.well-known/atproto-did`.
+ */
+async function resolveHandle(handle: string, fetch: ResolverFetch): Promise<string | undefined> {
+    const text = await fetch(`https://${handle}/.well-known/atproto-did`);
+    if (text instanceof Error) {
+        return undefined;
+    }
+    const did = text.trim();
+    return DID_PATTERN.test(did) ? did : undefined;
+}
+
+/**
+ * Returns the handles a DID document claims in `alsoKnownAs`.
+ * did:plc documents come from the PLC directory, did:web documents from the DID's host.
+ */
+async function resolveDidHandles(did: string, fetch: ResolverFetch): Promise<string[]> {
+    let url = `${PLC_DIRECTORY}/${did}`;
+    if (did.startsWith('did:web:')) {
+        const host = safeDecode(did.slice('did:web:'.length));
+        if (!host) {
+            return [];
+        }
+        url = `https://${host}/.well-known/did.json`;
+    }
+    const text = await fetch(url);
+    if (text instanceof Error) {
+        return [];
+    }
+    let document: { alsoKnownAs?: unknown };
+    try {
+        document = JSON.parse(text);
+    } catch {
+        return [];
+    }
+    const alsoKnownAs = Array.isArray(document?.alsoKnownAs) ? document.alsoKnownAs : [];
+    return alsoKnownAs
+        .filter((value): value is string => typeof value === 'string' && value.startsWith('at://'))
+        .map((value) => normalizeAtprotoIdentifier(value.slice('at://'.length)))
+        .filter((value): value is string => !!value);
+}
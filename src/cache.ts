@@ -0,0 +1,230 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { debug } from './xpoc-lib';
+
+/**
+ * A cached HTTP response body with the metadata needed to revalidate it.
+ */
+export type CacheEntry = {
+    /** the URL the response was requested from */
+    url: string;
+    /** the URL that actually answered, after redirects */
+    responseUrl: string;
+    /** the body decoded as UTF-8, without a byte order mark */
+    body: string;
+    /** the body exactly as it was downloaded, for signature verification */
+    bytes: Uint8Array;
+    etag?: string;
+    lastModified?: string;
+    /** when the body was last downloaded or revalidated (ms since epoch) */
+    fetchedAt: number;
+    /** when the entry must be revalidated (ms since epoch) */
+    expiresAt: number;
+};
+
+/**
+ * Performs an HTTP GET with the given extra request headers.
+ * A 304 Not Modified response must be returned as a Response, not as an Error.
+ */
+export type CacheFetch = (
+    url: string,
+    headers: Record<string, string>,
+) => Promise<Response | Error>;
+
+// used when the server does not say how long the response stays fresh
+const DEFAULT_TTL = 15 * 60 * 1000;
+const CACHE_NAME = 'trust-txt-cache';
+const METADATA_HEADER = 'X-Cache-Entry';
+const METADATA_KEYS: Array<keyof CacheEntry> = ['url', 'responseUrl', 'etag', 'lastModified', 'fetchedAt', 'expiresAt'];
+
+const memoryCache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<CacheEntry | Error>>();
+
+/**
+ * Fetches a URL through the cache.
+ * Fresh entries are returned without a request, stale entries are revalidated with
+ * If-None-Match/If-Modified-Since, and concurrent requests for the same URL share one download.
+ * Entries are kept in memory and in the Cache Storage API, so they survive service-worker restarts.
+ * @param url - The URL to fetch.
+ * @param fetcher - Performs the HTTP request.
+ * @param maxAge - The longest time an entry is reused without revalidation (ms), whatever its server allows.
+ * @returns A promise that resolves to the cache entry or an Error.
+ */
+export async function cachedFetch(
+    url: string,
+    fetcher: CacheFetch,
+    maxAge: number = Infinity,
+): Promise<CacheEntry | Error> {
+    const pending = inFlight.get(url);
+    if (pending) {
+        if (debug) { console.log('Validator - cachedFetch: joining in-flight request', url); }
+        return pending;
+    }
+    const request = fetchEntry(url, fetcher, maxAge).finally(() => inFlight.delete(url));
+    inFlight.set(url, request);
+    return request;
+}
+
+/**
+ * Removes every cached response, in memory and persisted.
+ * @returns A promise that resolves when the cache is cleared.
+ */
+export async function clearCache(): Promise<void> {
+    memoryCache.clear();
+    if (typeof caches !== 'undefined') {
+        await caches.delete(CACHE_NAME).catch(() => false);
+    }
+}
+
+async function fetchEntry(
+    url: string,
+    fetcher: CacheFetch,
+    maxAge: number,
+): Promise<CacheEntry | Error> {
+    const now = Date.now();
+    const cached = await readEntry(url);
+    if (cached && cached.expiresAt > now && now - cached.fetchedAt < maxAge) {
+        if (debug) { console.log('Validator - cachedFetch: fresh cache hit', url); }
+        return cached;
+    }
+
+    const headers: Record<string, string> = {};
+    if (cached?.etag) {
+        headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+        headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const response = await fetcher(url, headers);
+    if (response instanceof Error) {
+        return response;
+    }
+
+    const freshness = getFreshness(response.headers, now);
+
+    if (response.status === 304) {
+        if (!cached) {
+            return new Error(`HTTP error: unexpected 304 for ${url}`);
+        }
+        if (debug) { console.log('Validator - cachedFetch: revalidated', url); }
+        const revalidated = { ...cached, fetchedAt: now, expiresAt: freshness.expiresAt };
+        await writeEntry(revalidated);
+        return revalidated;
+    }
+
+    const buffer = await response.arrayBuffer().catch((error: Error) => {
+        return new Error(`text parse error: ${error}`);
+    });
+    if (buffer instanceof Error) {
+        return buffer;
+    }
+
+    const bytes = new Uint8Array(buffer);
+    const entry: CacheEntry = {
+        url,
+        responseUrl: response.url || url,
+        body: new TextDecoder().decode(bytes),
+        bytes,
+        etag: response.headers.get('ETag') ?? undefined,
+        lastModified: response.headers.get('Last-Modified') ?? undefined,
+        fetchedAt: now,
+        expiresAt: freshness.expiresAt,
+    };
+    if (freshness.store) {
+        await writeEntry(entry);
+    } else {
+        await deleteEntry(url);
+    }
+    return entry;
+}
+
+/**
+ * Computes how long a response may be reused from its Cache-Control and Expires headers.
+ * `no-cache` and `max-age=0` responses are stored but revalidated on every use;
+ * `no-store` responses are not stored at all.
+ * @param headers - The response headers.
+ * @param now - The time the response was received (ms since epoch).
+ */
+export function getFreshness(
+    headers: Headers,
+    now: number,
+): { store: boolean; expiresAt: number } {
+    const cacheControl = (headers.get('Cache-Control') ?? '').toLowerCase();
+    const directives = cacheControl.split(',').map((d) => d.trim());
+
+    if (directives.includes('no-store')) {
+        return { store: false, expiresAt: now };
+    }
+    if (directives.includes('no-cache')) {
+        return { store: true, expiresAt: now };
+    }
+
+    const maxAge = directives
+        .map((d) => /^max-age=(\d+)$/.exec(d)?.[1])
+        .find((value) => value !== undefined);
+    if (maxAge !== undefined) {
+        return { store: true, expiresAt: now + Number.parseInt(maxAge) * 1000 };
+    }
+
+    const expires = headers.get('Expires');
+    if (expires) {
+        const expiresAt = Date.parse(expires);
+        // an invalid Expires date means already expired
+        return { store: true, expiresAt: Number.isNaN(expiresAt) ? now : expiresAt };
+    }
+
+    return { store: true, expiresAt: now + DEFAULT_TTL };
+}
+
+async function readEntry(url: string): Promise<CacheEntry | undefined> {
+    const entry = memoryCache.get(url);
+    if (entry || typeof caches === 'undefined') {
+        return entry;
+    }
+    // the persisted cache is best-effort; it may be unavailable (e.g. in private windows)
+    try {
+        const cache = await caches.open(CACHE_NAME);
+        const response = await cache.match(url);
+        if (!response) {
+            return undefined;
+        }
+        // the body is stored as downloaded; the rest of the entry is in a header
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        const metadata = JSON.parse(response.headers.get(METADATA_HEADER) ?? '') as Omit<CacheEntry, 'body' | 'bytes'>;
+        const persisted = { ...metadata, body: new TextDecoder().decode(bytes), bytes };
+        memoryCache.set(url, persisted);
+        return persisted;
+    } catch (error) {
+        if (debug) { console.log('Validator - readEntry: cache storage error', error); }
+        return undefined;
+    }
+}
+
+async function writeEntry(entry: CacheEntry): Promise<void> {
+    memoryCache.set(entry.url, entry);
+    if (typeof caches === 'undefined') {
+        return;
+    }
+    try {
+        const cache = await caches.open(CACHE_NAME);
+        await cache.put(
+            entry.url,
+            new Response(entry.bytes, {
+                headers: { 'Content-Type': 'text/plain', [METADATA_HEADER]: JSON.stringify(entry, METADATA_KEYS) },
+            }),
+        );
+    } catch (error) {
+        if (debug) { console.log('Validator - writeEntry: cache storage error', error); }
+    }
+}
+
+async function deleteEntry(url: string): Promise<void> {
+    memoryCache.delete(url);
+    if (typeof caches !== 'undefined') {
+        await caches
+            .open(CACHE_NAME)
+            .then((cache) => cache.delete(url))
+            .catch(() => false);
+    }
+}
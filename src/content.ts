@@ -3,22 +3,93 @@
 import { debug } from './xpoc-lib';
 
 import { ContentPopup } from './control';
-import { CHECKMARK_URL, Icon, INVALID_URL, WARNING_URL } from './icon';
+import { applyIconStyle, CHECKMARK_URL, Icon, INVALID_URL, MetadataIndicator, WARNING_URL } from './icon';
 import DomScanner from './scanner';
-import { type lookupTrustUriResult } from './xpoc-lib';
+import { VisibilityQueue } from './visibility';
+import { type lookupTrustUriResult, type TrustValidationEntry } from './xpoc-lib';
 import { contextMenuResult, contextTarget } from './context';
+import { getRelationshipLevel } from './reciprocal';
+import { getSignatureLevel } from './signature';
+import { describeSelector } from './trust-uri';
+import { getResultLevel } from './verdict';
+import { DEFAULT_SETTINGS, getSettings, type Settings } from './settings';
+import {
+    getDiagnosticsTables,
+    getProfileTables,
+    getRelationshipTables,
+    getSignatureTables,
+    getSourceTables,
+    getValidationTables,
+    linkCell,
+    row,
+    type PopupTable,
+} from './popup-content';
+import {
+    DEFAULT_EXTRACTORS,
+    FRAME_EXTRACTORS,
+    describeSource,
+    findTrustUri,
+    getRunContainer,
+    type TrustUriMatch,
+    type TrustUriSource,
+} from './extractors';
 
-const TRUSTTXT_PATTERN = /trust:\/\/([a-zA-Z0-9.-]+)(\/[^!\s<]*)?!?/;
-const skipHiddenNodes = false;
 const SUCCESS_COLOR = '#5B9BD5';
 const ERROR_COLOR = '#E43A19';
 const WARNING_COLOR = '#F5C343';
 
+/*
+    The content script runs in every frame. Same-origin frames are scanned like the page and show
+    their popups in the top document, unless frame scanning is turned off; cross-origin frames
+    (ads, embeds) are only verified on request.
+*/
+const topDocument = getTopDocument();
+
+/*
+    The settings in use; they are read when the script starts and sent again by background.js
+    whenever they change, so open pages follow the options page without a reload.
+*/
+let settings: Settings = DEFAULT_SETTINGS;
+
 /*
     Instantiate the DomScanner and popup control
 */
-const scanner = new DomScanner(nodeTest, addCallback, removeCallback);
-const contentPopup = new ContentPopup();
+const scanner = new DomScanner(
+    window === window.top ? DEFAULT_EXTRACTORS : FRAME_EXTRACTORS,
+    addCallback,
+    removeCallback,
+    changeCallback,
+);
+// a frameset page has no body to show the popup in
+const contentPopup = new ContentPopup(topDocument?.body?.nodeName === 'BODY' ? topDocument : document);
+const metadataIndicator = new MetadataIndicator();
+const visibilityQueue = new VisibilityQueue();
+
+/*
+    Sources that are not rendered in the page; their icons go to the metadata indicator
+*/
+const METADATA_SOURCES: TrustUriSource['kind'][] = ['link', 'meta', 'json-ld'];
+
+/*
+    Every icon and metadata entry shown, by the node its trust URI was found in.
+    `value` is the text or attribute the URI was read from; when it changes, the indicator is stale.
+*/
+type PlacedIndicator = {
+    match: TrustUriMatch;
+    value: string | null;
+    remove: () => void;
+    /** the icon next to the page text; metadata icons keep their size */
+    img?: HTMLImageElement;
+};
+const placedIndicators = new Map<Node, PlacedIndicator[]>();
+
+/*
+    Single-page applications show a new view without loading a page. The URL of the tab is the
+    page the trust URIs are verified against, so each view gets a generation: lookups started in
+    a previous view are discarded when they end.
+*/
+let viewUrl: string | undefined = window === window.top ? location.href : undefined;
+let viewGeneration = 0;
 
 /* 
     Called after background.js has processed the context menu click
@@ -26,7 +97,14 @@ const contentPopup = new ContentPopup();
 */
 contextMenuResult((result: unknown) => {
     if (debug) { console.log('Validator - contextMenuResult:', result); }
-    addIcon(contextTarget as Node);
+    const trustUri = findTrustUri(contextTarget?.textContent);
+    // background.js already looked the URI up; its result is shown as is
+    trustUri && placeIndicator(
+        { trustUri, node: contextTarget as Node, source: { kind: 'text' } },
+        contextTarget?.textContent ?? null,
+        result as lookupTrustUriResult,
+        viewGeneration,
+    );
     showTrustPopup(contextTarget as Node, result as lookupTrustUriResult);
 });
 
@@ -34,11 +112,24 @@ contextMenuResult((result: unknown) => {
     Listen for messages from background.js
 */
 chrome.runtime.onMessage.addListener((request) => {
-    if (request.action === 'autoScanUpdated') {
-        request.autoScan ? scanner.start() : scanner.stop();
+    if (request.action === 'settingsUpdated') {
+        applySettings(request.settings);
+    }
+    // sent to every frame when the tab's URL changes without a page load (history.pushState)
+    if (request.action === 'locationChanged') {
+        changeView(request.url);
     }
 });
 
+/*
+    Back/forward navigation between history entries, and fragment changes, are seen by the page itself;
+    the background also reports them, so changeView ignores the second notice.
+*/
+if (window === window.top) {
+    window.addEventListener('popstate', () => changeView(location.href));
+    window.addEventListener('hashchange', () => changeView(location.href));
+}
+
 /**
  * Call background to lookup the trustUri
  *
@@ -68,59 +159,188 @@ const getBaseURL = (trustUri: string): string =>
         .replace(/\/$/, '');
 
 /**
- * The function `autoScanPage` checks if a certain flag is set in the local storage and starts a
- * scanner if the flag is true.
+ * Starts or stops the scanner and restyles the icons shown to follow the settings.
+ * Icons already shown stay when automatic verification is turned off.
+ *
+ * @param next - The new settings.
+ */
+const applySettings = (next: Settings) => {
+    if (debug) { console.log('Validator - applySettings:', next); }
+    settings = next;
+    const scan = settings.autoVerifyTrustUris && topDocument !== undefined && (window === window.top || settings.scanFrames);
+    scan ? scanner.start() : scanner.stop();
+    placedIndicators.forEach((placed) =>
+        placed.forEach((indicator) => indicator.img && applyIconStyle(indicator.img, settings.iconStyle)),
+    );
+};
+
+/**
+ * The function `autoScanPage` reads the settings and starts the scanner if trust URIs are verified automatically.
  */
 (function autoScanPage() {
-    chrome.storage.local.get(['autoVerifyTrustUris'], (result) => {
-        const autoValidateTrustUris = !!result?.autoVerifyTrustUris;
-        if (autoValidateTrustUris) {
-            scanner.start();
-        }
-    });
+    getSettings().then(applySettings);
 })();
 
 /**
- * Adds an icon to the specified node.
+ * Adds an icon for a trust URI found in the page.
+ * Text and link URIs get an icon next to them; metadata URIs get one in the metadata indicator.
  *
- * @param node - The node to add the icon to.
+ * @param match - The trust URI and where it was found.
  */
-const addIcon = (node: Node) => {
-    if (debug) { console.log(`Validator - addIcon: ${node.textContent}`); }
-
-    // We can choose to bypass nodes that are initially hidden. However, there's a complication if a node that
-    // starts off hidden later becomes visible. In such cases, re-scanning the node when it becomes visible is a
-    // challenging task to detect. Therefore, for the time being, we will scan all nodes.
-    if ((node as Text).textContent !== '') {
-        const parentElement = node.parentNode as HTMLElement;
-        if (skipHiddenNodes && isStyleVisible(parentElement) === false) {
-            return;
-        }
+const addIcon = (match: TrustUriMatch) => {
+    const { trustUri, node, source } = match;
+    if (debug) { console.log(`Validator - addIcon: ${trustUri} in ${describeSource(source)}`); }
+
+    // a node is scanned again when text around it changes
+    const placed = placedIndicators.get(node) ?? [];
+    if (placed.some((indicator) => indicator.match.trustUri === trustUri && indicator.match.source.kind === source.kind)) {
+        return;
+    }
+    // each attribute of a node holds one URI: a different one replaces it. A text node may hold
+    // several; its edits remove every icon of the run (see changeCallback)
+    placed
+        .filter((indicator) => source.kind !== 'text' && indicator.match.source.kind === source.kind)
+        .forEach((indicator) => removeIndicator(node, indicator));
 
-        // Check if the node contains a Trust.txt URI
-        const trustMatch = TRUSTTXT_PATTERN.exec((node as Text).textContent ?? '');
-        const trustUri = trustMatch?.[0] as string;
+    const value = getSourceValue(match);
+    // metadata is never on screen; everything else is verified once the user can see it, unless turned off
+    if (METADATA_SOURCES.includes(source.kind) || !settings.verifyWhenVisible) {
+        verifyMatch(match, value);
+    } else {
+        visibilityQueue.whenVisible(node, trustUri, () => verifyMatch(match, value));
+    }
+};
 
-        if (debug) { console.log('Validator - addIcon: trustMatch:',trustMatch, 'trustUri:', trustUri); }
+/**
+ * Looks up a trust URI found in the page and shows its icon.
+ * The icon is not shown if the node was removed or edited, or the view changed, while the lookup ran.
+ *
+ * @param match - The trust URI and where it was found.
+ * @param value - The text or attribute the URI was read from, when it was found.
+ */
+const verifyMatch = (match: TrustUriMatch, value: string | null) => {
+    const generation = viewGeneration;
+    lookupTrustUri(match.trustUri).then((result) => {
+        if (debug) { console.log(`Validator - verifyMatch: result: ${JSON.stringify(result)}`); }
+        placeIndicator(match, value, result, generation);
+    });
+};
 
-        lookupTrustUri(trustUri).then((result) => {
-            const icon = new Icon(node, trustUri, result);
-            icon.onClick = () => {
-                const trustResult = result as lookupTrustUriResult;
-                showTrustPopup(icon.img as HTMLElement, trustResult);
-            };
-            if (debug) { console.log(`Validator - addIcon: result: ${JSON.stringify(result)}`); }
+/**
+ * Shows the icon of a looked-up trust URI, next to the page text or in the metadata indicator.
+ * Nothing is shown if the node was removed or edited, or the view changed, since the URI was found.
+ *
+ * @param match - The trust URI and where it was found.
+ * @param value - The text or attribute the URI was read from, when it was found.
+ * @param result - The lookup result.
+ * @param generation - The view the URI was found in.
+ */
+const placeIndicator = (match: TrustUriMatch, value: string | null, result: lookupTrustUriResult, generation: number) => {
+    const { trustUri, node, source } = match;
+    const placed = placedIndicators.get(node) ?? [];
+    if (
+        generation !== viewGeneration ||
+        !node.isConnected ||
+        getSourceValue(match) !== value ||
+        placed.some((indicator) => indicator.match.trustUri === trustUri && indicator.match.source.kind === source.kind)
+    ) {
+        return;
+    }
+    let remove: () => void;
+    let img: HTMLImageElement | undefined;
+    if (METADATA_SOURCES.includes(source.kind)) {
+        const img = Icon.createIcon(result);
+        const item = metadataIndicator.add(img, describeSource(source));
+        img.addEventListener('click', () => {
+            setTimeout(() => showTrustPopup(img, result, source));
         });
+        remove = () => metadataIndicator.remove(item);
+    } else {
+        const icon = new Icon(node, trustUri, result);
+        icon.onClick = () => {
+            showTrustPopup(icon.img as HTMLElement, result, source);
+        };
+        remove = () => icon.remove();
+        img = icon.img as HTMLImageElement;
+        applyIconStyle(img, settings.iconStyle);
+    }
+    placedIndicators.set(node, [...placed, { match, value, remove, img }]);
+};
+
+/**
+ * Removes an icon or metadata entry, so the node can be verified again.
+ *
+ * @param node - The node the trust URI was found in.
+ * @param indicator - The indicator to remove.
+ */
+const removeIndicator = (node: Node, indicator: PlacedIndicator) => {
+    if (debug) { console.log(`Validator - removeIndicator: ${indicator.match.trustUri}`); }
+    indicator.remove();
+    const placed = (placedIndicators.get(node) ?? []).filter((item) => item !== indicator);
+    placed.length > 0 ? placedIndicators.set(node, placed) : placedIndicators.delete(node);
+    visibilityQueue.forget(node);
+};
+
+/**
+ * Starts over after the tab's URL changed without a page load: every indicator was verified
+ * against the previous URL, so all are removed and the page is scanned again.
+ *
+ * @param url - The new URL of the tab.
+ */
+const changeView = (url: string) => {
+    if (url === viewUrl) {
+        return;
     }
+    if (debug) { console.log(`Validator - changeView: ${viewUrl} -> ${url}`); }
+    viewUrl = url;
+    viewGeneration++;
+    contentPopup.hide();
+    placedIndicators.forEach((placed, node) => placed.forEach((indicator) => removeIndicator(node, indicator)));
+    scanner.rescan();
 };
 
+/**
+ * Returns the text or attribute a trust URI was read from.
+ *
+ * @param match - The trust URI and where it was found.
+ */
+const getSourceValue = ({ node, source }: TrustUriMatch): string | null => {
+    switch (source.kind) {
+        case 'href':
+        case 'title':
+        case 'alt':
+            return (node as Element).getAttribute(source.kind);
+        case 'link':
+            return (node as Element).getAttribute('href');
+        case 'meta':
+            return (node as Element).getAttribute('content');
+        default:
+            return node.textContent;
+    }
+};
+
+/**
+ * Returns the top document when every frame up to it has the same origin as this one.
+ * @returns The top document, or undefined in a cross-origin frame.
+ */
+function getTopDocument(): Document | undefined {
+    try {
+        // reading the document of a cross-origin frame throws
+        return window.top?.document;
+    } catch {
+        return undefined;
+    }
+}
+
 /**
  * Displays the popup based on the provided trustResult.
  *
  * @param {Node} targetNode - The target node where the popup will be displayed.
  * @param {lookupTrustUriResult} trustResult - The result of the Trust URI lookup.
+ * @param {TrustUriSource} source - Where the trust URI was found, shown for sources other than text.
  */
-function showTrustPopup(targetNode: Node, trustResult: lookupTrustUriResult) {
+function showTrustPopup(targetNode: Node, trustResult: lookupTrustUriResult, source?: TrustUriSource) {
+    const sourceTables = getSourceTables(source);
     if (debug) { console.log("Validator - showTrustPopup: trustResult:", trustResult); }
     if (trustResult.type === 'notFound') {
         contentPopup.show(
@@ -129,12 +349,21 @@ function showTrustPopup(targetNode: Node, trustResult: lookupTrustUriResult) {
             ERROR_COLOR,
             chrome.runtime.getURL('icons/invalid.svg'),
             [
+                ...sourceTables,
                 {
                     title: 'Error',
-                    Message: `This page is not listed in the trust.txt file at ${getBaseURL(
-                        trustResult.baseurl,
-                    )}`,
+                    rows: [
+                        row(
+                            'Message',
+                            `This page is not listed in the ${describeSelector(trustResult.selector)} of the trust.txt file at ${
+                                trustResult.source ?? getBaseURL(trustResult.baseurl)
+                            }`,
+                        ),
+                    ],
                 },
+                ...getSignatureTables(trustResult.signature),
+                ...getDiagnosticsTables(trustResult.diagnostics),
+                ...getProfileTables(trustResult.file, trustResult.source, trustResult.fetchedAt),
             ],
         );
     }
@@ -142,15 +371,22 @@ function showTrustPopup(targetNode: Node, trustResult: lookupTrustUriResult) {
     if (trustResult.type === 'error') {
         contentPopup.show(
             targetNode as HTMLElement,
-            'Trust URI Error',
+            trustResult.invalidUri ? 'Invalid Trust URI' : 'Trust URI Error',
             ERROR_COLOR,
             chrome.runtime.getURL('icons/invalid.svg'),
             [
+                ...sourceTables,
                 {
                     title: 'Error',
-                    Message: `Failed to fetch trust.txt file from ${getBaseURL(
-                        trustResult.baseurl,
-                    )}`,
+                    rows: [
+                        row(
+                            'Message',
+                            // a malformed trust URI is not a fetch failure: nothing was fetched
+                            trustResult.invalidUri
+                                ? trustResult.message
+                                : `Failed to fetch trust.txt file from ${getBaseURL(trustResult.baseurl)}`,
+                        ),
+                    ],
                 },
             ],
         );
@@ -159,15 +395,27 @@ function showTrustPopup(targetNode: Node, trustResult: lookupTrustUriResult) {
     if (trustResult.type === 'account') {
         if (trustResult.version === 'trust.txt-draft00') {
             const platformMessage = trustResult.account.platform ? `${trustResult.account.platform} account ${trustResult.account.account}` : `Account ${trustResult.account.account}`;
+            // the same level as the icon and the toolbar button: a bad signature outweighs the match
+            const level = getResultLevel(trustResult);
             contentPopup.show(
                 targetNode as HTMLElement,
-                'Trust.txt match',
-                SUCCESS_COLOR,
+                getAccountTitle(trustResult),
+                level === 'valid' ? SUCCESS_COLOR : level === 'warning' ? WARNING_COLOR : ERROR_COLOR,
                 chrome.runtime.getURL('icons/xpoc_logo.svg'),
                 [
+                    ...sourceTables,
                     {
-                        Message: `${platformMessage} found in trust.txt file at ${trustResult.baseurl}`
-                    }
+                        rows: [
+                            row(
+                                'Message',
+                                `${platformMessage} found in the ${describeSelector(trustResult.selector)} of the trust.txt file at ${trustResult.source ?? trustResult.baseurl}`,
+                            ),
+                        ],
+                    },
+                    ...getRelationshipTables(trustResult.relationship),
+                    ...getSignatureTables(trustResult.signature),
+                    ...getDiagnosticsTables(trustResult.diagnostics),
+                    ...getProfileTables(trustResult.file, trustResult.source, trustResult.fetchedAt),
                 ],
             );
         } else {
@@ -179,92 +427,97 @@ function showTrustPopup(targetNode: Node, trustResult: lookupTrustUriResult) {
                 [
                     {
                         title: 'Origin',
-                        Name: trustResult.name,
-                        Website: `<a href='https://${trustResult.baseurl}' target='_blank'>${trustResult.baseurl}</a>`,
+                        rows: [
+                            row('Name', trustResult.name),
+                            row('Website', linkCell(`https://${trustResult.baseurl}`, trustResult.baseurl)),
+                        ],
                     },
                     {
                         title: 'Account',
-                        URL: `<a href='${trustResult.account.url}' target='_blank'>${trustResult.account.url}</a>`,
-                        Account: trustResult.account.account,
+                        rows: [
+                            row('URL', linkCell(trustResult.account.url)),
+                            row('Account', trustResult.account.account),
+                        ],
                     },
                 ],
             );
         }
     }
     if (trustResult.type === 'multiple') {
-        const tables = [{title: "", Message: ""}];
-        let count = 0;
-        for (const item of trustResult.list) {
-            tables[count] = {title: item.status, Message: item.message};
-            count += 1;
-        }
+        const tables: PopupTable[] = getValidationTables(trustResult.list);
         if (debug) { console.log("Validator - showTrustPopup: tables:", tables); }
+        const signatureLevel = getSignatureLevel(trustResult.signature);
+        // a signature that could not be checked keeps the list's message, but not a verified color
+        const level = getResultLevel(trustResult);
         contentPopup.show(
             targetNode as HTMLElement,
-            getPopUpMessage(trustResult.list),
-            getPopUpColor(trustResult.list),
-            chrome.runtime.getURL(getIconUrl(trustResult.list)),
-            tables
+            signatureLevel === 'invalid' ? 'Trust.txt signature mismatch' : getPopUpMessage(trustResult.list),
+            signatureLevel === 'valid' ? getPopUpColor(trustResult.list) : level === 'warning' ? WARNING_COLOR : ERROR_COLOR,
+            chrome.runtime.getURL(signatureLevel === 'valid' ? getIconUrl(trustResult.list) : level === 'warning' ? WARNING_URL : INVALID_URL),
+            [
+                ...sourceTables,
+                ...tables,
+                ...getSignatureTables(trustResult.signature),
+                ...getProfileTables(trustResult.file, trustResult.source, trustResult.fetchedAt),
+            ]
         );
     }
 }
 
-function nodeTest(node: Node): boolean {
-    if (
-        node.textContent == null ||
-        node.nodeName === 'SCRIPT' ||
-        node?.parentElement?.nodeName === 'SCRIPT'
-    ) {
-        return false;
+/**
+ * Returns the popup title of an account match: a bad signature first, then the relationship, then
+ * a signature that could not be checked.
+ */
+function getAccountTitle(trustResult: lookupTrustUriResult & { type: 'account' }): string {
+    const signatureLevel = getSignatureLevel(trustResult.signature);
+    const relationshipLevel = getRelationshipLevel(trustResult.relationship);
+    if (signatureLevel === 'invalid') {
+        return 'Trust.txt signature mismatch';
+    }
+    if (relationshipLevel !== 'valid') {
+        return relationshipLevel === 'warning' ? 'Trust.txt one-sided match' : 'Trust.txt contradicted match';
     }
-    return TRUSTTXT_PATTERN.test(node.textContent);
+    return signatureLevel === 'warning' ? 'Trust.txt match, signature not checked' : 'Trust.txt match';
 }
 
-function addCallback(node: Node): void {
-    if (debug) { console.log(`Validator - addCallback: Scanner2: add: ${node.textContent}`); }
-    addIcon(node);
+function addCallback(match: TrustUriMatch): void {
+    if (debug) { console.log(`Validator - addCallback: Scanner2: add: ${match.trustUri}`); }
+    addIcon(match);
 }
 
 function removeCallback(node: Node): void {
     if (debug) { console.log(`Validator - removeCallback: Scanner2: remove: ${node.textContent}`); }
-    if (
-        (node as HTMLElement).nodeName === 'IMG' &&
-        (node as HTMLElement).hasAttribute('trust')
-    ) {
-        if (debug) { console.log(`Validator removeCallback: remove: ${node as HTMLElement}`); }
-    }
+    // a node moved elsewhere in the page is still connected and keeps its icon
+    placedIndicators.forEach((placed, source) => {
+        !source.isConnected && placed.forEach((indicator) => removeIndicator(source, indicator));
+    });
 }
 
 /**
- * Determines if an element is visually rendered in the document.
- * Checks if the element is part of the document and if its computed style
- * makes it visually perceivable (not `display: none`, `visibility: hidden`, or `opacity: 0`).
- * Also checks if the element has non-zero dimensions.
- * @param {Element} element - The DOM element to check.
- * @returns {boolean} - Returns `true` if the element is visually rendered, otherwise `false`.
+ * Removes the indicators whose text or attribute was edited; the scanner then finds the new URIs.
+ * A URI split across inline elements ends on a node next to the edited one, so every text indicator
+ * in the same run of text is checked.
  */
-function isStyleVisible(element: Element): boolean {
-    if (!document.body.contains(element)) {
-        return false;
-    }
-    const style = window.getComputedStyle(element);
-    const rect = element.getBoundingClientRect();
-
-    return !(
-        style.display === 'none' ||
-        style.visibility === 'hidden' ||
-        parseFloat(style.opacity) === 0 ||
-        rect.width === 0 ||
-        rect.height === 0
-    );
+function changeCallback(node: Node): void {
+    if (debug) { console.log(`Validator - changeCallback: Scanner2: change: ${node.textContent}`); }
+    const container = node.nodeType === Node.TEXT_NODE ? getRunContainer(node) : undefined;
+    placedIndicators.forEach((placed, source) => {
+        placed
+            .filter((indicator) =>
+                source === node
+                    ? getSourceValue(indicator.match) !== indicator.value
+                    : indicator.match.source.kind === 'text' && !!container?.contains(source),
+            )
+            .forEach((indicator) => removeIndicator(source, indicator));
+    });
 }
 
 /**
  * Returns the appropriate icon type based on multiple status results
- * @param {[{status: string, domain: string, message: string}]} list
+ * @param {TrustValidationEntry[]} list
  * @returns {string}
  */
-export function getIconUrl (list: [{status: string, domain: string, message: string}]) {
+export function getIconUrl (list: TrustValidationEntry[]) {
     let iconType = INVALID_URL;
     let found = false;
     let notfound = false;
@@ -300,7 +553,7 @@ export function getIconUrl (list: [{status: string, domain: string, message: str
 /**
  * Returns the appropriate color based on multiple status results
  */
-function getPopUpColor (list: [{status: string, domain: string, message: string}]) {
+function getPopUpColor (list: TrustValidationEntry[]) {
     if (debug) { console.log('Validator - getPopUpColor: list', list); }
     let color = ERROR_COLOR;
     let found = false;
@@ -339,7 +592,7 @@ function getPopUpColor (list: [{status: string, domain: string, message: string}
 /**
  * Returns the appropriate color based on multiple status results
  */
-function getPopUpMessage (list: [{status: string, domain: string, message: string}]) {
+function getPopUpMessage (list: TrustValidationEntry[]) {
     if (debug) { console.log('Validator - getPopUpColor: list', list); }
     let message = 'Trust URI Error';
     let found = false;
@@ -53,10 +53,15 @@ export function contextMenuRequest(
         (info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab) => {
             return handler(info, clickedText, tab).then((result) => {
                 const tabId = (tab as chrome.tabs.Tab).id as number;
-                chrome.tabs.sendMessage(tabId, {
-                    action: 'contextMenuResult',
-                    data: result,
-                });
+                // only the frame that was right-clicked shows the result
+                chrome.tabs.sendMessage(
+                    tabId,
+                    {
+                        action: 'contextMenuResult',
+                        data: result,
+                    },
+                    { frameId: info.frameId ?? 0 },
+                );
             });
         },
     );
@@ -104,7 +109,8 @@ export function contextMenuResult(handler: (result: unknown) => void): void {
         'mouseup',
         function (event) {
             if (event.button === 2 /* right click */) {
-                const target = event.target as HTMLElement;
+                // the event is retargeted to the shadow host; the first node of its path is the clicked one
+                const target = event.composedPath()[0] as HTMLElement;
                 if (!target.textContent) return;
                 const clickedText = getSubstringAtClick(
                     target.textContent,
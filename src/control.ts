@@ -1,6 +1,8 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
+import { getSafeHref, type PopupCell, type PopupTable } from './popup-content';
+
 const template = document.createElement('TEMPLATE');
 template.innerHTML = `
 <style>
@@ -51,6 +53,8 @@ template.innerHTML = `
         margin: 0.5em 0 0.5em 0;
         border-left: 1px solid rgba(0, 0, 0, 0.1);
         min-width: 20em;
+        max-height: 60vh;
+        overflow-y: auto;
         flex-grow: 1;
         flex-shrink: 1;
     }
@@ -87,6 +91,25 @@ template.innerHTML = `
         margin-bottom: 0.5em;
     }
 
+    .badge {
+        display: inline-block;
+        padding: 0 0.5em;
+        border-radius: 0.6em;
+        color: white;
+    }
+
+    .badge.valid {
+        background: #5B9BD5;
+    }
+
+    .badge.warning {
+        background: #C99A1E;
+    }
+
+    .badge.invalid {
+        background: #E43A19;
+    }
+
 </style>
 
 <div class="container" >
@@ -111,16 +134,23 @@ export class ContentPopup /* extends HTMLElement */ {
     #icon: HTMLImageElement;
     #label: HTMLLabelElement;
     #removeFocusTrap: (() => void) | undefined;
-
-    constructor() {
+    #document: Document;
+
+    /**
+     * @param popupDocument - The document showing the popup: a script running in a same-origin frame
+     * passes the top document, so the popup is not clipped by the frame.
+     */
+    constructor(popupDocument: Document = document) {
+        this.#document = popupDocument;
         this.container = document.createElement('DIV');
+        this.container.setAttribute('trust', 'trustPopup');
         this.#shadowRoot = this.container.attachShadow({ mode: 'open' });
         this.#shadowRoot.appendChild(
             (template.cloneNode(true) as HTMLTemplateElement).content,
         );
 
         this.container.style.display = 'none';
-        document.body.appendChild(this.container);
+        popupDocument.body.appendChild(this.container);
         this.#icon = this.#shadowRoot.querySelector(
             '#icon',
         ) as HTMLImageElement;
@@ -137,18 +167,19 @@ export class ContentPopup /* extends HTMLElement */ {
         element.nodeType === Node.TEXT_NODE &&
             (element = element.parentElement as HTMLElement);
 
-        const boundRect = element.getBoundingClientRect();
+        const boundRect = getRectInDocument(element, this.#document);
+        const view = this.#document.defaultView ?? window;
 
         // check if the fixed element will go off the right edge of the screen
         this.container.style.left =
-            boundRect.right + this.container.offsetWidth > window.innerWidth
-                ? `${window.innerWidth - this.container.offsetWidth - 10}px`
+            boundRect.right + this.container.offsetWidth > view.innerWidth
+                ? `${view.innerWidth - this.container.offsetWidth - 10}px`
                 : `${boundRect.right}px`;
 
         // check if the fixed element will go off the bottom edge of the screen
         this.container.style.top =
-            boundRect.bottom + this.container.offsetHeight > window.innerHeight
-                ? `${window.innerHeight - this.container.offsetHeight - 10}px`
+            boundRect.bottom + this.container.offsetHeight > view.innerHeight
+                ? `${view.innerHeight - this.container.offsetHeight - 10}px`
                 : (this.container.style.top = `${boundRect.bottom}px`);
     }
 
@@ -157,7 +188,7 @@ export class ContentPopup /* extends HTMLElement */ {
         title: string,
         titleColor: string,
         iconUrl: string,
-        tables: Record<string, string>[],
+        tables: PopupTable[],
     ) {
         this.#label.textContent = title;
         this.#icon.src = iconUrl;
@@ -169,33 +200,24 @@ export class ContentPopup /* extends HTMLElement */ {
 
         divRight.innerHTML = '';
 
+        (this.#label.parentElement as HTMLDivElement).style.background = titleColor;
         tables.forEach((tableSet) => {
             const labelTable = dce('label');
-            labelTable.textContent = tableSet.title;
-            (this.#label.parentElement as HTMLDivElement).style.background =
-                titleColor;
+            labelTable.textContent = tableSet.title ?? '';
             divRight.appendChild(labelTable);
             const table = dce('table');
-            // const tableId = tableSet.title.toLocaleLowerCase().replace(/ /g, '-');
-            // table.id = tableId
-            // labelTable.htmlFor = tableId;
-            Object.keys(tableSet)
-                .filter((key) => key !== 'title')
-                .forEach((key) => {
-                    const value = tableSet[key];
-                    const tr = dce('tr');
-                    const tdLabel = dce('td');
-                    tdLabel.classList.add('key');
-                    tdLabel.textContent = key;
-                    tr.appendChild(tdLabel);
-                    const tdValue = dce('td');
-                    value.startsWith('<a ')
-                        ? (tdValue.innerHTML = value)
-                        : (tdValue.textContent = value);
-                    tdValue.classList.add('value');
-                    tr.appendChild(tdValue);
-                    table.appendChild(tr);
-                });
+            tableSet.rows.forEach((row) => {
+                const tr = dce('tr');
+                const tdLabel = dce('td');
+                tdLabel.classList.add('key');
+                tdLabel.textContent = row.label;
+                tr.appendChild(tdLabel);
+                const tdValue = dce('td');
+                tdValue.appendChild(createCellElement(row.value));
+                tdValue.classList.add('value');
+                tr.appendChild(tdValue);
+                table.appendChild(tr);
+            });
             divRight.appendChild(table);
         });
 
@@ -218,13 +240,83 @@ export class ContentPopup /* extends HTMLElement */ {
                 this.#removeFocusTrap && this.#removeFocusTrap();
                 this.#removeFocusTrap = undefined;
                 this.hide();
-                document.removeEventListener('click', closeListener);
-                document.removeEventListener('wheel', closeListener);
+                documents.forEach((doc) => {
+                    doc.removeEventListener('click', closeListener);
+                    doc.removeEventListener('wheel', closeListener);
+                });
             }
         };
 
-        document.addEventListener('click', closeListener);
-        document.addEventListener('wheel', closeListener);
+        // a popup shown for a frame closes on clicks in the frame and in the page around it
+        const documents = new Set([document, this.#document]);
+        documents.forEach((doc) => {
+            doc.addEventListener('click', closeListener);
+            doc.addEventListener('wheel', closeListener);
+        });
+    }
+}
+
+/**
+ * Returns the viewport rectangle of an element in the coordinates of an ancestor frame's document,
+ * adding the offset of every frame in between.
+ * @param element - The element, in this document or in a shadow root of it.
+ * @param target - The document the rectangle is for.
+ * @returns The rectangle.
+ */
+function getRectInDocument(element: Element, target: Document): { right: number; bottom: number } {
+    const rect = element.getBoundingClientRect();
+    let right = rect.right;
+    let bottom = rect.bottom;
+    let view: Window | null = element.ownerDocument.defaultView;
+    while (view && view.document !== target && view.frameElement) {
+        const frameRect = view.frameElement.getBoundingClientRect();
+        right += frameRect.left + view.frameElement.clientLeft;
+        bottom += frameRect.top + view.frameElement.clientTop;
+        view = view.parent;
+    }
+    return { right, bottom };
+}
+
+/**
+ * Creates the element showing one cell. Text is never parsed as markup, and a link whose URL
+ * is not safe is shown as text.
+ * @param cell - The cell to show.
+ * @returns The element.
+ */
+function createCellElement(cell: PopupCell): HTMLElement {
+    switch (cell.type) {
+        case 'link': {
+            const href = getSafeHref(cell.href);
+            if (!href) {
+                return createCellElement({ type: 'text', text: cell.text });
+            }
+            const link = document.createElement('a');
+            link.href = href;
+            link.textContent = cell.text;
+            link.target = '_blank';
+            link.rel = 'noopener noreferrer';
+            return link;
+        }
+        case 'list': {
+            const list = document.createElement('div');
+            cell.items.forEach((item) => {
+                const line = document.createElement('div');
+                line.appendChild(createCellElement(item));
+                list.appendChild(line);
+            });
+            return list;
+        }
+        case 'badge': {
+            const badge = document.createElement('span');
+            badge.classList.add('badge', cell.level);
+            badge.textContent = cell.text;
+            return badge;
+        }
+        default: {
+            const span = document.createElement('span');
+            span.textContent = cell.text;
+            return span;
+        }
     }
 }
 
@@ -0,0 +1,88 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { debug } from './xpoc-lib';
+
+import { type CacheEntry } from './cache';
+import { isSameHost } from './domain';
+
+/*
+    Locations of the trust.txt file on a host, in the order they are tried.
+    The draft registers the well-known location; the root location is the legacy fallback.
+*/
+const TRUST_TXT_PATHS = ['/.well-known/trust.txt', '/trust.txt'];
+
+/**
+ * Returns the URLs where the trust.txt file of a host may be found, in the order they must be tried:
+ * the well-known and root locations on the host itself, then on its `www.` variant
+ * (or on the bare host if the host already starts with `www.`).
+ * @param host - The host name from the trust URI.
+ * @returns The candidate URLs.
+ */
+export function getCandidateUrls(host: string): string[] {
+    const hostname = host.toLowerCase();
+    const variant = hostname.startsWith('www.')
+        ? hostname.slice('www.'.length)
+        : `www.${hostname}`;
+    return [hostname, variant].flatMap((h) =>
+        TRUST_TXT_PATHS.map((path) => `https://${h}${path}`),
+    );
+}
+
+/**
+ * Checks the redirect policy for a trust.txt response.
+ * A trust.txt file declares the trust relationships of the host it was requested from, so a
+ * redirect may only change the path or switch between the host and its `www.` variant.
+ * Redirects to other hosts, and downgrades to http, are rejected.
+ * @param requestUrl - The URL that was requested.
+ * @param responseUrl - The URL that answered, after following redirects.
+ * @returns An Error if the redirect is not allowed, otherwise undefined.
+ */
+export function checkRedirect(
+    requestUrl: string,
+    responseUrl: string,
+): Error | undefined {
+    if (!responseUrl || responseUrl === requestUrl) {
+        return undefined;
+    }
+    const requested = new URL(requestUrl);
+    const answered = new URL(responseUrl);
+    if (answered.protocol !== 'https:') {
+        return new Error(`Redirect from ${requestUrl} to non-https ${responseUrl} is not allowed`);
+    }
+    if (!isSameHost(answered.hostname, requested.hostname)) {
+        return new Error(`Cross-host redirect from ${requestUrl} to ${responseUrl} is not allowed`);
+    }
+    return undefined;
+}
+
+/**
+ * Finds the trust.txt file of a host by trying each candidate location in order.
+ * @param host - The host name from the trust URI.
+ * @param fetchText - Fetches a candidate URL; returns an Error if nothing usable answered.
+ * @returns A promise that resolves to the first successful response, or an Error listing every failed attempt.
+ */
+export async function discoverTrustTxt(
+    host: string,
+    fetchText: (url: string) => Promise<CacheEntry | Error>,
+): Promise<CacheEntry | Error> {
+    const failures: string[] = [];
+    const unreachable = new Set<string>();
+    for (const url of getCandidateUrls(host)) {
+        // don't wait for another timeout from a host that already timed out
+        const hostname = new URL(url).hostname;
+        if (unreachable.has(hostname)) {
+            continue;
+        }
+        const entry = await fetchText(url);
+        if (!(entry instanceof Error)) {
+            if (debug) { console.log('Validator - discoverTrustTxt: found', url, 'answered by', entry.responseUrl); }
+            return entry;
+        }
+        if (debug) { console.log('Validator - discoverTrustTxt: failed', url, entry.message); }
+        failures.push(`${url}: ${entry.message}`);
+        if (entry.message.startsWith('HTTP timeout')) {
+            unreachable.add(hostname);
+        }
+    }
+    return new Error(`No trust.txt file found for ${host} (${failures.join('; ')})`);
+}
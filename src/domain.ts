@@ -0,0 +1,68 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { getDomain } from 'tldts';
+
+/*
+    Domain comparisons use the Public Suffix List bundled with tldts, so no network access is needed.
+    Private suffixes (e.g. blogspot.com, github.io) are honored: sites hosted under them are
+    different organizations.
+*/
+const PSL_OPTIONS = { allowPrivateDomains: true };
+
+/**
+ * Returns the normalized host name of a URL, trust URI or bare host:
+ * lower case, without port, trailing dot or `www.` prefix.
+ * @param value - A URL (`https://www.example.com/path`), trust URI (`trust://example.com!`) or host name.
+ * @returns The host name, or undefined if the value cannot be parsed.
+ */
+export function getHost(value: string): string | undefined {
+    const trimmed = value.trim();
+    if (!trimmed) {
+        return undefined;
+    }
+    const url = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)
+        ? trimmed.replace(/^trust:\/\//i, 'https://').replace(/!$/, '')
+        : `https://${trimmed}`;
+    try {
+        const hostname = new URL(url).hostname.toLowerCase().replace(/\.$/, '');
+        return hostname.replace(/^www\./, '') || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Returns the registrable domain (eTLD+1) of a URL, trust URI or host,
+ * e.g. `example.co.uk` for `https://news.example.co.uk`.
+ * @param value - A URL, trust URI or host name.
+ * @returns The registrable domain, or undefined for IP addresses, public suffixes and invalid values.
+ */
+export function getRegistrableDomain(value: string): string | undefined {
+    const host = getHost(value);
+    return (host && getDomain(host, PSL_OPTIONS)) ?? undefined;
+}
+
+/**
+ * Compares two URLs, trust URIs or hosts by exact host name (ignoring `www.`, port and case).
+ * Used where an entry names one specific site, e.g. social accounts.
+ */
+export function isSameHost(a: string, b: string): boolean {
+    const hostA = getHost(a);
+    return hostA !== undefined && hostA === getHost(b);
+}
+
+/**
+ * Compares two URLs, trust URIs or hosts by registrable domain.
+ * Used for organization relations (member, belongto, control, ...): an organization's
+ * trust.txt entry covers all the hosts of its registrable domain.
+ * Values without a registrable domain (IP addresses, localhost) must match exactly.
+ */
+export function isSameOrganization(a: string, b: string): boolean {
+    const domainA = getRegistrableDomain(a);
+    const domainB = getRegistrableDomain(b);
+    if (domainA === undefined || domainB === undefined) {
+        return domainA === domainB && isSameHost(a, b);
+    }
+    return domainA === domainB;
+}
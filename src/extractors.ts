@@ -0,0 +1,276 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+export const TRUST_URI_PATTERN = /trust:\/\/([a-zA-Z0-9.-]+)(\/[^!\s<"']*)?!?/;
+
+/**
+ * Where in the page a trust URI was found.
+ */
+export type TrustUriSourceKind = 'text' | 'href' | 'link' | 'meta' | 'title' | 'alt' | 'json-ld';
+
+export type TrustUriSource = {
+    kind: TrustUriSourceKind;
+    /** the attribute, rel or property the URI was read from, e.g. `rel="me"` or `sameAs` */
+    detail?: string;
+};
+
+/**
+ * A trust URI found in the page.
+ * `node` is the text node or element holding it; for a URI split across several text nodes, the one where it ends.
+ */
+export type TrustUriMatch = {
+    trustUri: string;
+    node: Node;
+    source: TrustUriSource;
+};
+
+/**
+ * A trust URI found in a run of adjacent text pieces.
+ */
+export type TextRunMatch = {
+    trustUri: string;
+    /** the index of the piece where the URI ends */
+    endPiece: number;
+    /** the offset in that piece just after the URI */
+    endOffset: number;
+};
+
+/*
+    Elements that flow with the text around them: a trust URI may be split across them.
+    Any other element (blocks, images, line breaks, ...) ends a run of text.
+*/
+const INLINE_ELEMENTS = new Set([
+    'A', 'ABBR', 'B', 'BDI', 'BDO', 'CITE', 'CODE', 'DATA', 'DEL', 'DFN', 'EM', 'FONT', 'I', 'INS',
+    'KBD', 'MARK', 'Q', 'S', 'SAMP', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP', 'TIME', 'U', 'VAR',
+]);
+const SKIPPED_ELEMENTS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'TEXTAREA']);
+
+/**
+ * Finds trust URIs in one kind of markup.
+ */
+export type TrustUriExtractor = {
+    name: string;
+    /** attributes whose changes can add a URI; the scanner re-runs the extractor on the changed element */
+    attributes: string[];
+    extract: (root: Node) => TrustUriMatch[];
+};
+
+/**
+ * Trust URIs in visible text.
+ * Every URI of a text node is reported, and a URI split across inline elements
+ * (e.g. `trust://<b>example.com</b>!`) is reassembled and reported on the text node where it ends.
+ */
+export const textExtractor: TrustUriExtractor = {
+    name: 'text',
+    attributes: [],
+    extract: (root) =>
+        collectTextRuns(getRunContainer(root)).flatMap((run) =>
+            matchTextRun(run.map((node) => node.data)).map((match) => ({
+                trustUri: match.trustUri,
+                node: run[match.endPiece],
+                source: { kind: 'text' as const },
+            })),
+        ),
+};
+
+/**
+ * Links whose target is a trust URI: `<a href="trust://...">`.
+ */
+export const hrefExtractor: TrustUriExtractor = {
+    name: 'href',
+    attributes: ['href'],
+    extract: (root) =>
+        selectAll(root, 'a[href], area[href]').flatMap((element) =>
+            matchAttribute(element, 'href', { kind: 'href', detail: 'href' }),
+        ),
+};
+
+/**
+ * Document metadata: `<link rel="..." href="trust://...">` and `<meta name|property="..." content="trust://...">`.
+ */
+export const metadataExtractor: TrustUriExtractor = {
+    name: 'metadata',
+    attributes: ['href', 'content'],
+    extract: (root) => [
+        ...selectAll(root, 'link[href]').flatMap((element) =>
+            matchAttribute(element, 'href', { kind: 'link', detail: `rel="${element.getAttribute('rel') ?? ''}"` }),
+        ),
+        ...selectAll(root, 'meta[content]').flatMap((element) => {
+            const name = element.getAttribute('name') ?? element.getAttribute('property') ?? '';
+            return matchAttribute(element, 'content', { kind: 'meta', detail: name ? `name="${name}"` : undefined });
+        }),
+    ],
+};
+
+/**
+ * Tooltips and alternative text: `title="..."` on any element and `alt="..."` on images.
+ */
+export const attributeExtractor: TrustUriExtractor = {
+    name: 'attribute',
+    attributes: ['title', 'alt'],
+    extract: (root) => [
+        ...selectAll(root, '[title]').flatMap((element) =>
+            matchAttribute(element, 'title', { kind: 'title', detail: 'title' }),
+        ),
+        ...selectAll(root, 'img[alt], area[alt], input[alt]').flatMap((element) =>
+            matchAttribute(element, 'alt', { kind: 'alt', detail: 'alt' }),
+        ),
+    ],
+};
+
+/**
+ * `sameAs` properties of JSON-LD structured data, e.g. `{"@type": "NewsMediaOrganization", "sameAs": ["trust://..."]}`.
+ */
+export const jsonLdExtractor: TrustUriExtractor = {
+    name: 'json-ld',
+    attributes: [],
+    extract: (root) =>
+        selectAll(root, 'script[type="application/ld+json"]').flatMap((script) => {
+            let data: unknown;
+            try {
+                data = JSON.parse(script.textContent ?? '');
+            } catch {
+                return [];
+            }
+            return collectSameAs(data).map((trustUri) => ({
+                trustUri,
+                node: script,
+                source: { kind: 'json-ld' as const, detail: 'sameAs' },
+            }));
+        }),
+};
+
+export const DEFAULT_EXTRACTORS: TrustUriExtractor[] = [
+    textExtractor,
+    hrefExtractor,
+    metadataExtractor,
+    attributeExtractor,
+    jsonLdExtractor,
+];
+
+/**
+ * Extractors for embedded frames: the metadata of an embedded document does not describe the page.
+ */
+export const FRAME_EXTRACTORS: TrustUriExtractor[] = [textExtractor, hrefExtractor, attributeExtractor];
+
+/**
+ * Returns the first trust URI in a string.
+ */
+export function findTrustUri(value: string | null | undefined): string | undefined {
+    return value ? TRUST_URI_PATTERN.exec(value)?.[0] : undefined;
+}
+
+/**
+ * Finds every trust URI in the concatenation of adjacent text pieces.
+ * @param pieces - The texts of a run of adjacent text nodes.
+ * @returns The URIs in order, each with the piece and offset where it ends.
+ */
+export function matchTextRun(pieces: string[]): TextRunMatch[] {
+    const text = pieces.join('');
+    const pattern = new RegExp(TRUST_URI_PATTERN.source, 'g');
+    const matches: TextRunMatch[] = [];
+    for (const match of text.matchAll(pattern)) {
+        const end = (match.index ?? 0) + match[0].length;
+        let start = 0;
+        let piece = 0;
+        // the piece holding the last character of the URI
+        while (piece < pieces.length - 1 && start + pieces[piece].length < end) {
+            start += pieces[piece].length;
+            piece++;
+        }
+        matches.push({ trustUri: match[0], endPiece: piece, endOffset: end - start });
+    }
+    return matches;
+}
+
+/**
+ * Describes where a trust URI was found, for popups.
+ * @returns e.g. `link rel="me"` or `JSON-LD sameAs`.
+ */
+export function describeSource(source: TrustUriSource): string {
+    switch (source.kind) {
+        case 'text':
+            return 'page text';
+        case 'href':
+            return 'link target';
+        case 'json-ld':
+            return 'JSON-LD sameAs';
+        default:
+            return source.detail && source.detail !== source.kind ? `${source.kind} ${source.detail}` : `${source.kind} attribute`;
+    }
+}
+
+/**
+ * Returns the node whose text runs contain every run touching `root`:
+ * text and inline elements are widened to their nearest non-inline ancestor.
+ */
+export function getRunContainer(root: Node): Node {
+    let node = root;
+    while (
+        node.parentNode &&
+        (node.nodeType === Node.TEXT_NODE || (node instanceof Element && INLINE_ELEMENTS.has(node.nodeName)))
+    ) {
+        node = node.parentNode;
+    }
+    return node;
+}
+
+/**
+ * Splits the text under a node into runs of adjacent text nodes, in document order.
+ */
+function collectTextRuns(root: Node): Text[][] {
+    const runs: Text[][] = [[]];
+    const visit = (node: Node): void => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            runs[runs.length - 1].push(node as Text);
+            return;
+        }
+        if (node instanceof Element && SKIPPED_ELEMENTS.has(node.nodeName)) {
+            runs.push([]);
+            return;
+        }
+        const inline = node instanceof Element && INLINE_ELEMENTS.has(node.nodeName);
+        inline || runs.push([]);
+        node.childNodes.forEach(visit);
+        inline || runs.push([]);
+    };
+    visit(root);
+    return runs.filter((run) => run.length > 0);
+}
+
+/**
+ * Returns the elements matching a selector in a subtree, including its root.
+ */
+function selectAll(root: Node, selector: string): Element[] {
+    if (!(root instanceof Element || root instanceof Document || root instanceof DocumentFragment)) {
+        return [];
+    }
+    const elements = Array.from(root.querySelectorAll(selector));
+    return root instanceof Element && root.matches(selector) ? [root, ...elements] : elements;
+}
+
+function matchAttribute(element: Element, attribute: string, source: TrustUriSource): TrustUriMatch[] {
+    const trustUri = findTrustUri(element.getAttribute(attribute));
+    return trustUri ? [{ trustUri, node: element, source }] : [];
+}
+
+/**
+ * Collects the trust URIs of every `sameAs` property, at any depth (including `@graph` arrays).
+ */
+function collectSameAs(data: unknown): string[] {
+    if (Array.isArray(data)) {
+        return data.flatMap(collectSameAs);
+    }
+    if (!data || typeof data !== 'object') {
+        return [];
+    }
+    return Object.entries(data).flatMap(([key, value]) => {
+        if (key === 'sameAs') {
+            const values = Array.isArray(value) ? value : [value];
+            return values
+                .map((item) => (typeof item === 'string' ? findTrustUri(item) : undefined))
+                .filter((item): item is string => !!item);
+        }
+        return collectSameAs(value);
+    });
+}
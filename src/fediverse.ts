@@ -0,0 +1,94 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { getHost, getRegistrableDomain } from './domain';
+import {
+    parseWebUrl,
+    safeDecode,
+    type CanonicalAccount,
+    type PlatformMatcher,
+    type ResolverFetch,
+} from './platforms';
+
+export const FEDIVERSE_PLATFORM = 'Fediverse';
+
+const HANDLE_PATTERN = /^(?:acct:|@)?([^\s@/]+)@([^\s@/]+)$/i;
+// https://instance/@user (Mastodon, Misskey, ...) and https://instance/users/user (ActivityPub actor)
+const PROFILE_PATH_PATTERN = /^\/(?:@|users\/)([^/@]+)\/?$/i;
+// platforms that also use /@user profile URLs but are not ActivityPub instances
+const NON_FEDIVERSE_DOMAINS = ['youtube.com', 'medium.com', 'tiktok.com', 'threads.net', 'threads.com', 'substack.com'];
+
+/**
+ * Normalizes a Fediverse handle: `@User@Instance.social`, `acct:user@instance.social`
+ * and `user@instance.social` all become `user@instance.social`.
+ * @param handle - The handle.
+ * @returns The normalized handle, or undefined if the value is not a handle.
+ */
+export function normalizeFediverseHandle(handle: string): string | undefined {
+    const match = HANDLE_PATTERN.exec(handle.trim());
+    const host = match && getHost(match[2]);
+    return match && host ? `${match[1].toLowerCase()}@${host}` : undefined;
+}
+
+/**
+ * Matches ActivityPub accounts, as handles or as profile URLs on their home instance.
+ * The canonical account is the `user@instance` handle.
+ * A profile shown by another instance, e.g. `https://other.social/@user@instance.social`, is not matched:
+ * that page is served by a server the account does not control.
+ */
+export const fediverseMatcher: PlatformMatcher = {
+    name: FEDIVERSE_PLATFORM,
+    canonicalize: (url) => {
+        const handle = /^https?:/i.test(url) ? getProfileHandle(url) : normalizeFediverseHandle(url);
+        return handle ? { platform: FEDIVERSE_PLATFORM, account: handle } : undefined;
+    },
+    resolve: async (account, fetch) => {
+        const aliases = await webfinger(account.account, fetch);
+        return [account, ...aliases];
+    },
+};
+
+/**
+ * Returns the handle of a profile URL on its home instance.
+ * URLs of platforms known not to be instances, and paths that cannot be decoded, are not profiles.
+ */
+function getProfileHandle(url: string): string | undefined {
+    const parsed = parseWebUrl(url);
+    if (!parsed || NON_FEDIVERSE_DOMAINS.includes(getRegistrableDomain(parsed.hostname) ?? '')) {
+        return undefined;
+    }
+    const match = PROFILE_PATH_PATTERN.exec(parsed.pathname);
+    const user = match && safeDecode(match[1]);
+    return user ? normalizeFediverseHandle(`${user}@${parsed.hostname}`) : undefined;
+}
+
+/**
+ * Looks up a handle with WebFinger on its domain. The domain decides where the account lives,
+ * so `@news@publisher.example` can point to a profile on any instance.
+ * @param handle - The normalized handle.
+ * @param fetch - Downloads the WebFinger document.
+ * @returns The accounts named by the document's subject, aliases and links; empty if the lookup fails.
+ */
+async function webfinger(handle: string, fetch: ResolverFetch): Promise<CanonicalAccount[]> {
+    const domain = handle.split('@')[1];
+    const text = await fetch(`https://${domain}/.well-known/webfinger?resource=${encodeURIComponent(`acct:${handle}`)}`);
+    if (text instanceof Error) {
+        return [];
+    }
+    let document: { subject?: unknown; aliases?: unknown; links?: unknown };
+    try {
+        document = JSON.parse(text);
+    } catch {
+        return [];
+    }
+    const links = Array.isArray(document?.links) ? document.links : [];
+    const values = [
+        document?.subject,
+        ...(Array.isArray(document?.aliases) ? document.aliases : []),
+        ...links.map((link: { href?: unknown }) => link?.href),
+    ];
+    return values
+        .filter((value): value is string => typeof value === 'string')
+        .map((value) => fediverseMatcher.canonicalize(value))
+        .filter((value): value is CanonicalAccount => !!value);
+}
@@ -0,0 +1,181 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { debug } from './xpoc-lib';
+
+import { getHost, isSameOrganization } from './domain';
+import {
+    type ParsedTrustTxt,
+    type TrustTxtDiagnostic,
+    type TrustTxtFile,
+} from './trust-txt';
+
+/**
+ * The trust.txt relations that point at another organization's trust.txt file.
+ */
+export type TrustRelation = 'member' | 'belongto' | 'control' | 'controlledby';
+
+export const TRUST_RELATIONS: TrustRelation[] = [
+    'member',
+    'belongto',
+    'control',
+    'controlledby',
+];
+
+/**
+ * An organization in the trust graph, identified by its domain.
+ */
+export type TrustGraphNode = {
+    domain: string;
+    trustUri: string;
+    /** number of hops from the root organization */
+    depth: number;
+    /**
+     * resolved: the trust.txt file was downloaded and parsed
+     * error: the trust.txt file could not be downloaded
+     * unvisited: the organization is past the depth limit and was not fetched
+     */
+    status: 'resolved' | 'error' | 'unvisited';
+    file?: TrustTxtFile;
+    diagnostics?: TrustTxtDiagnostic[];
+    error?: string;
+};
+
+/**
+ * A relation declared in the trust.txt file of `from` about `to`.
+ */
+export type TrustGraphEdge = {
+    from: string;
+    to: string;
+    relation: TrustRelation;
+};
+
+export type TrustGraph = {
+    root: string;
+    nodes: { [domain: string]: TrustGraphNode };
+    edges: TrustGraphEdge[];
+    /** true if the depth or node limit stopped the traversal */
+    truncated: boolean;
+};
+
+export type TrustGraphOptions = {
+    /** maximum number of hops followed from the root (default 2) */
+    maxDepth?: number;
+    /** maximum number of organizations in the graph (default 25) */
+    maxNodes?: number;
+    /** relations to follow (default: all of TRUST_RELATIONS) */
+    relations?: TrustRelation[];
+};
+
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_NODES = 25;
+
+/**
+ * Resolves the trust relationship graph starting at the given trust URI.
+ * The trust.txt files of related organizations are fetched breadth-first, one level at a time.
+ * Organizations already in the graph are not fetched again, so cycles terminate.
+ * @param trustUri - The trust URI of the root organization.
+ * @param download - Downloads and parses the trust.txt file for a trust URI.
+ * @param options - Traversal limits.
+ * @returns A promise that resolves to the graph, or an Error if the trust URI is invalid.
+ */
+export async function resolveGraph(
+    trustUri: string,
+    download: (trustUri: string) => Promise<ParsedTrustTxt | Error>,
+    options: TrustGraphOptions = {},
+): Promise<TrustGraph | Error> {
+    const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+    const relations = options.relations ?? TRUST_RELATIONS;
+
+    const root = getHost(trustUri);
+    if (!root) {
+        return new Error(`Invalid trust URI: ${trustUri}`);
+    }
+
+    const graph: TrustGraph = {
+        root,
+        nodes: {},
+        edges: [],
+        truncated: false,
+    };
+
+    const addNode = (domain: string, depth: number): TrustGraphNode => {
+        const node: TrustGraphNode = {
+            domain,
+            trustUri: `trust://${domain}!`,
+            depth,
+            status: 'unvisited',
+        };
+        graph.nodes[domain] = node;
+        return node;
+    };
+
+    let level: TrustGraphNode[] = [addNode(root, 0)];
+    // the root keeps the original trust URI so any path is preserved
+    level[0].trustUri = trustUri;
+
+    while (level.length > 0) {
+        if (debug) { console.log('Validator - resolveGraph: level', level[0].depth, level.map((n) => n.domain)); }
+        const results = await Promise.all(level.map((node) => download(node.trustUri)));
+        const next: TrustGraphNode[] = [];
+
+        level.forEach((node, index) => {
+            const result = results[index];
+            if (result instanceof Error) {
+                node.status = 'error';
+                node.error = result.message;
+                return;
+            }
+            node.status = 'resolved';
+            node.file = result.file;
+            node.diagnostics = result.diagnostics;
+
+            for (const relation of relations) {
+                for (const entry of result.file[relation]) {
+                    const domain = getHost(entry);
+                    if (!domain || isSameOrganization(domain, node.domain)) {
+                        continue;
+                    }
+                    graph.edges.push({ from: node.domain, to: domain, relation });
+                    if (graph.nodes[domain]) {
+                        continue;
+                    }
+                    if (Object.keys(graph.nodes).length >= maxNodes) {
+                        graph.truncated = true;
+                        continue;
+                    }
+                    const child = addNode(domain, node.depth + 1);
+                    if (child.depth <= maxDepth) {
+                        next.push(child);
+                    } else {
+                        graph.truncated = true;
+                    }
+                }
+            }
+        });
+
+        level = next;
+    }
+
+    // drop edges to organizations that were not added because of the node limit
+    graph.edges = graph.edges.filter((edge) => graph.nodes[edge.to]);
+    return graph;
+}
+
+/**
+ * Describes the edges of a trust graph as human-readable sentences,
+ * e.g. "outlet.com belongs to association.org".
+ * @param graph - The trust graph.
+ * @returns One sentence per edge, in traversal order.
+ */
+export function describeTrustGraph(graph: TrustGraph): string[] {
+    const verbs: Record<TrustRelation, string> = {
+        member: 'lists as a member',
+        belongto: 'belongs to',
+        control: 'controls',
+        controlledby: 'is controlled by',
+    };
+    return graph.edges.map(
+        (edge) => `${edge.from} ${verbs[edge.relation]} ${edge.to}`,
+    );
+}
@@ -0,0 +1,154 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { debug } from './xpoc-lib';
+
+import {
+    clearHistory,
+    filterHistory,
+    formatHistoryCsv,
+    formatHistoryJson,
+    getHistory,
+    type HistoryEntry,
+    type HistoryFilter,
+} from './history';
+import { getSafeHref } from './popup-content';
+import { formatFetchedAt } from './profile';
+import { getSettings } from './settings';
+import { type ResultLevel } from './verdict';
+
+const domainInput = document.getElementById('history-domain') as HTMLInputElement;
+const levelSelect = document.getElementById('history-level') as HTMLSelectElement;
+const limitText = document.getElementById('history-limit') as HTMLSpanElement;
+const historyError = document.getElementById('history-error') as HTMLParagraphElement;
+
+// every entry read from the store, most recent first
+let allEntries: HistoryEntry[] = [];
+
+document.addEventListener('DOMContentLoaded', () => {
+    getSettings().then((settings) => {
+        limitText.textContent = String(settings.historyLimit);
+    });
+    loadHistory().then(() => {
+        if (debug) { console.log('Validator - history: loaded', allEntries.length, 'entries'); }
+    });
+});
+
+domainInput.addEventListener('input', () => showHistory());
+levelSelect.addEventListener('change', () => showHistory());
+
+(document.getElementById('history-filter') as HTMLFormElement).addEventListener('submit', (event) => {
+    event.preventDefault();
+});
+
+(document.getElementById('history-export-json') as HTMLButtonElement).addEventListener('click', () => {
+    download('trust-history.json', 'application/json', formatHistoryJson(filterHistory(allEntries, getFilter())));
+});
+
+(document.getElementById('history-export-csv') as HTMLButtonElement).addEventListener('click', () => {
+    download('trust-history.csv', 'text/csv', formatHistoryCsv(filterHistory(allEntries, getFilter())));
+});
+
+(document.getElementById('history-clear') as HTMLButtonElement).addEventListener('click', async () => {
+    if (!confirm('Remove every recorded lookup?')) {
+        return;
+    }
+    const cleared = await clearHistory();
+    historyError.textContent = cleared instanceof Error ? cleared.message : '';
+    await loadHistory();
+});
+
+/**
+ * Reads the history from the store and shows the entries that match the filter.
+ * @returns A promise that resolves when the history is displayed.
+ */
+async function loadHistory(): Promise<void> {
+    const entries = await getHistory();
+    if (entries instanceof Error) {
+        historyError.textContent = entries.message;
+        allEntries = [];
+    } else {
+        allEntries = entries;
+    }
+    showHistory();
+}
+
+function getFilter(): HistoryFilter {
+    return {
+        domain: domainInput.value.trim() || undefined,
+        level: (levelSelect.value as ResultLevel) || undefined,
+    };
+}
+
+/**
+ * Shows the entries that match the filter.
+ */
+function showHistory(): void {
+    const entries = filterHistory(allEntries, getFilter());
+    const count = document.getElementById('history-count') as HTMLParagraphElement;
+    count.textContent = `${entries.length} of ${allEntries.length} lookups`;
+    const body = (document.getElementById('history-table') as HTMLTableElement).tBodies[0];
+    body.replaceChildren(...entries.map(createHistoryRow));
+}
+
+/**
+ * Creates the table row of one lookup.
+ * @param entry - The history entry.
+ * @returns The row element.
+ */
+function createHistoryRow(entry: HistoryEntry): HTMLTableRowElement {
+    const row = document.createElement('tr');
+    row.insertCell().textContent = formatFetchedAt(entry.checkedAt);
+    row.insertCell().appendChild(createLink(entry.url));
+    const trustUri = document.createElement('code');
+    trustUri.textContent = entry.trustUri;
+    row.insertCell().appendChild(trustUri);
+    const status = document.createElement('span');
+    status.classList.add('status', entry.level);
+    status.textContent = entry.status;
+    row.insertCell().appendChild(status);
+    row.insertCell().textContent = entry.summary;
+    const file = row.insertCell();
+    entry.source && file.appendChild(createLink(entry.source));
+    if (entry.snapshot) {
+        // the snapshot is the file as it was when checked; the live file may have changed since
+        const details = document.createElement('details');
+        const summary = document.createElement('summary');
+        summary.textContent = 'Snapshot';
+        const content = document.createElement('pre');
+        content.textContent = entry.snapshot;
+        details.append(summary, content);
+        file.appendChild(details);
+    }
+    return row;
+}
+
+/**
+ * Creates a link to a URL, or plain text when it is not safe to open.
+ */
+function createLink(url: string): HTMLElement {
+    const href = getSafeHref(url);
+    const element = document.createElement(href ? 'a' : 'span');
+    if (element instanceof HTMLAnchorElement && href) {
+        element.href = href;
+        element.target = '_blank';
+        element.rel = 'noopener noreferrer';
+    }
+    element.textContent = url;
+    return element;
+}
+
+/**
+ * Saves a text file through a temporary link.
+ * @param filename - The suggested file name.
+ * @param type - The MIME type.
+ * @param content - The file content.
+ */
+function download(filename: string, type: string, content: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // the download starts after the click event
+    setTimeout(() => URL.revokeObjectURL(url));
+}
@@ -0,0 +1,272 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { debug } from './xpoc-lib';
+
+import { type storedTrustResult } from './background';
+import { getHost } from './domain';
+import { getResultListRows } from './result-list';
+import { type ResultLevel } from './verdict';
+
+/*
+    Every lookup is recorded in IndexedDB, which outlives the browser session, unlike the
+    per-tab results kept in chrome.storage.session. The oldest entries are removed once
+    the history holds more than the retention limit.
+*/
+const DB_NAME = 'trust-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'lookups';
+const CHECKED_AT_INDEX = 'checkedAt';
+
+/**
+ * One recorded lookup.
+ */
+export type HistoryEntry = {
+    /** assigned by the store */
+    id?: number;
+    /** the page the trust URI was found on */
+    url: string;
+    trustUri: string;
+    level: ResultLevel;
+    /** a short status, e.g. "Verified" or "Not listed" */
+    status: string;
+    summary: string;
+    /** the trust.txt file that was checked */
+    source?: string;
+    /** the text of the trust.txt file as it was downloaded, if it could be */
+    snapshot?: string;
+    /** when the trust URI was checked (ms since epoch) */
+    checkedAt: number;
+};
+
+export type HistoryFilter = {
+    /** matches the host of the page or of the trust URI, including subdomains */
+    domain?: string;
+    level?: ResultLevel;
+};
+
+const CSV_COLUMNS: Array<Exclude<keyof HistoryEntry, 'id'>> = [
+    'checkedAt',
+    'url',
+    'trustUri',
+    'level',
+    'status',
+    'summary',
+    'source',
+    'snapshot',
+];
+
+/**
+ * Creates the history entry of a lookup.
+ * @param url - The page the trust URI was found on.
+ * @param trustUri - The trust URI.
+ * @param result - The lookup result.
+ * @param checkedAt - When the trust URI was checked (ms since epoch).
+ * @returns The entry.
+ */
+export function createHistoryEntry(
+    url: string,
+    trustUri: string,
+    result: storedTrustResult,
+    checkedAt: number,
+): HistoryEntry {
+    const [row] = getResultListRows({ [trustUri]: { ...result, checkedAt } });
+    return {
+        url,
+        trustUri,
+        level: row.level,
+        status: row.status,
+        summary: row.summary,
+        source: row.source,
+        snapshot: result.type !== 'error' ? result.content : undefined,
+        checkedAt,
+    };
+}
+
+/**
+ * Returns the entries that match a filter.
+ * @param entries - The history entries.
+ * @param filter - The domain and level to match; missing values match every entry.
+ * @returns The matching entries, in the same order.
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+    const domain = filter.domain && getHost(filter.domain);
+    return entries.filter(
+        (entry) =>
+            (!filter.level || entry.level === filter.level) &&
+            (!domain || getEntryHosts(entry).some((host) => host === domain || host.endsWith(`.${domain}`))),
+    );
+}
+
+function getEntryHosts(entry: HistoryEntry): string[] {
+    return [getHost(entry.url), getHost(entry.trustUri)].filter((host): host is string => !!host);
+}
+
+/**
+ * Formats history entries as CSV, with a header row. Times are ISO 8601.
+ * @param entries - The entries to export.
+ * @returns The CSV text.
+ */
+export function formatHistoryCsv(entries: HistoryEntry[]): string {
+    const lines = entries.map((entry) =>
+        CSV_COLUMNS.map((column) =>
+            escapeCsv(column === 'checkedAt' ? new Date(entry.checkedAt).toISOString() : entry[column] ?? ''),
+        ).join(','),
+    );
+    return [CSV_COLUMNS.join(','), ...lines].join('\r\n');
+}
+
+/**
+ * Quotes a CSV field when it holds a separator, a quote or a line break.
+ * Fields that a spreadsheet would run as a formula are prefixed with a quote.
+ */
+function escapeCsv(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Formats history entries as JSON. Times are ISO 8601.
+ * @param entries - The entries to export.
+ * @returns The JSON text.
+ */
+export function formatHistoryJson(entries: HistoryEntry[]): string {
+    const records = entries.map((entry) =>
+        Object.fromEntries(
+            CSV_COLUMNS.map((column) => [column, column === 'checkedAt' ? new Date(entry.checkedAt).toISOString() : entry[column]]),
+        ),
+    );
+    return JSON.stringify(records, null, 2);
+}
+
+/**
+ * Records a lookup, then removes the oldest entries beyond the retention limit.
+ * @param entry - The entry to record.
+ * @param limit - The number of entries to keep.
+ * @returns A promise that resolves when the entry is stored, or to an Error.
+ */
+export async function addHistoryEntry(entry: HistoryEntry, limit: number): Promise<void | Error> {
+    if (debug) { console.log('Validator - addHistoryEntry:', entry.url, entry.trustUri); }
+    const db = await openHistory();
+    if (db instanceof Error) {
+        return db;
+    }
+    const added = await runTransaction(db, 'readwrite', (store) => {
+        store.add(entry);
+    });
+    if (added instanceof Error) {
+        db.close();
+        return added;
+    }
+    const pruned = await prune(db, limit);
+    db.close();
+    return pruned;
+}
+
+/**
+ * Reads every recorded lookup.
+ * @returns A promise that resolves to the entries, most recent first, or to an Error.
+ */
+export async function getHistory(): Promise<HistoryEntry[] | Error> {
+    const db = await openHistory();
+    if (db instanceof Error) {
+        return db;
+    }
+    let entries: HistoryEntry[] = [];
+    const read = await runTransaction(db, 'readonly', (store) => {
+        const request = store.index(CHECKED_AT_INDEX).getAll();
+        request.onsuccess = () => {
+            entries = (request.result as HistoryEntry[]).reverse();
+        };
+    });
+    db.close();
+    return read instanceof Error ? read : entries;
+}
+
+/**
+ * Removes the oldest entries beyond a retention limit.
+ * @param limit - The number of entries to keep.
+ * @returns A promise that resolves when the entries are removed, or to an Error.
+ */
+export async function pruneHistory(limit: number): Promise<void | Error> {
+    const db = await openHistory();
+    if (db instanceof Error) {
+        return db;
+    }
+    const pruned = await prune(db, limit);
+    db.close();
+    return pruned;
+}
+
+/**
+ * Removes every recorded lookup.
+ * @returns A promise that resolves when the history is cleared, or to an Error.
+ */
+export async function clearHistory(): Promise<void | Error> {
+    const db = await openHistory();
+    if (db instanceof Error) {
+        return db;
+    }
+    const cleared = await runTransaction(db, 'readwrite', (store) => {
+        store.clear();
+    });
+    db.close();
+    return cleared;
+}
+
+function openHistory(): Promise<IDBDatabase | Error> {
+    return new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+            resolve(new Error('IndexedDB is not available'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+            store.createIndex(CHECKED_AT_INDEX, 'checkedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(new Error(`Cannot open the history: ${request.error?.message}`));
+    });
+}
+
+/**
+ * Runs requests in a transaction on the history store.
+ * @returns A promise that resolves when the transaction completes, or to an Error.
+ */
+function runTransaction(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => void,
+): Promise<void | Error> {
+    return new Promise((resolve) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => resolve(new Error(`History transaction failed: ${transaction.error?.message}`));
+        transaction.onabort = () => resolve(new Error(`History transaction aborted: ${transaction.error?.message}`));
+        run(transaction.objectStore(STORE_NAME));
+    });
+}
+
+/**
+ * Deletes the oldest entries until at most `limit` remain.
+ */
+function prune(db: IDBDatabase, limit: number): Promise<void | Error> {
+    return runTransaction(db, 'readwrite', (store) => {
+        const count = store.count();
+        count.onsuccess = () => {
+            let excess = count.result - limit;
+            if (excess <= 0) {
+                return;
+            }
+            if (debug) { console.log('Validator - pruneHistory: removing', excess, 'entries'); }
+            // the index is ordered by time, so the cursor starts at the oldest entry
+            const cursor = store.index(CHECKED_AT_INDEX).openCursor();
+            cursor.onsuccess = () => {
+                if (cursor.result && excess-- > 0) {
+                    cursor.result.delete();
+                    cursor.result.continue();
+                }
+            };
+        };
+    });
+}
@@ -3,7 +3,8 @@
 import { debug } from './xpoc-lib';
 
 import { type lookupTrustUriResult } from './xpoc-lib';
-import { getIconUrl } from './content';
+import { type IconStyle } from './settings';
+import { getResultLevel } from './verdict';
 
 // define icon types (checkmark, invalid, and warning)
 export const CHECKMARK_URL: string = chrome.runtime.getURL('icons/checkmark.svg',);
@@ -43,12 +44,13 @@ export class Icon {
             case 'error':
                 path = INVALID_URL;
                 break;
+            // the level includes the relationship and signature checks, like the toolbar verdict
             case 'account':
-                path = CHECKMARK_URL;
-                break;
-            case 'multiple':
-                path = getIconUrl(result.list);
+            case 'multiple': {
+                const level = getResultLevel(result);
+                path = level === 'valid' ? CHECKMARK_URL : level === 'warning' ? WARNING_URL : INVALID_URL;
                 break;
+            }
             default:
                 throw new Error('Unknown status');
         }
@@ -79,18 +81,27 @@ export class Icon {
 
         node.parentElement?.setAttribute('trust', 'trustLink');
 
-        if (
-            !(
-                node.nextSibling instanceof HTMLImageElement &&
-                node.nextSibling?.getAttribute('trust') === 'trustIcon'
-            )
-        ) {
-            if (!textNode.textContent?.endsWith(' ')) {
-                textNode.textContent += ' ';
-            }
-            // inserts the image after the text node
-            // (this works even if there is no next sibling)
-            node.parentNode?.insertBefore(img, node.nextSibling);
+        // the page's text node is never split, since the page's scripts may still hold it: the icons
+        // of every trust URI in the node follow it, in order
+        let previous: Node = node;
+        while (isTrustIcon(previous.nextSibling)) {
+            previous = previous.nextSibling as Node;
+        }
+        // a margin rather than a space keeps the page's text as it was
+        (img as HTMLImageElement).style.marginLeft = '0.25em';
+        // (this works even if there is no next sibling)
+        node.parentNode?.insertBefore(img, previous.nextSibling);
+    }
+
+    /**
+     * Removes the icon from the page, and the mark on the parent of the node once it has no icon left.
+     */
+    public remove(): void {
+        // the page's text node may already be gone; the icon still is in its former parent
+        const parent = this.img.parentElement;
+        this.img.parentNode?.removeChild(this.img);
+        if (parent && !parent.querySelector(':scope > img[trust="trustIcon"]')) {
+            parent.removeAttribute('trust');
         }
     }
 
@@ -104,3 +115,101 @@ export class Icon {
         });
     }
 }
+
+function isTrustIcon(node: Node | null): boolean {
+    return node instanceof HTMLImageElement && node.getAttribute('trust') === 'trustIcon';
+}
+
+const ICON_SIZES: Record<Exclude<IconStyle, 'hidden'>, string> = {
+    standard: '1.5em',
+    compact: '1em',
+};
+
+/**
+ * Sizes an icon shown next to the page text, or hides it; a hidden icon keeps its place,
+ * so it can be shown again when the style changes.
+ * @param img - The icon, from Icon.createIcon.
+ * @param style - The icon style of the settings.
+ */
+export function applyIconStyle(img: HTMLImageElement, style: IconStyle): void {
+    if (style === 'hidden') {
+        img.style.display = 'none';
+        return;
+    }
+    img.style.display = '';
+    img.style.height = ICON_SIZES[style];
+    img.style.width = ICON_SIZES[style];
+}
+
+/*
+    Trust URIs found in page metadata (<link>, <meta>, JSON-LD) have no place in the page text,
+    so their icons are shown together in a corner of the window.
+*/
+export class MetadataIndicator {
+    #host: HTMLDivElement | undefined;
+    #list: HTMLUListElement | undefined;
+
+    /**
+     * Adds an icon to the indicator, creating the indicator on first use.
+     * @param img - The icon, from Icon.createIcon.
+     * @param label - Where the trust URI was found, e.g. `link rel="me"`.
+     * @returns The entry, to remove it later.
+     */
+    add(img: HTMLImageElement, label: string): HTMLLIElement {
+        const item = document.createElement('li');
+        item.style.display = 'flex';
+        item.style.alignItems = 'center';
+        item.style.gap = '0.4em';
+        const text = document.createElement('span');
+        text.textContent = label;
+        item.append(img, text);
+        this.#getList().appendChild(item);
+        return item;
+    }
+
+    /**
+     * Removes an entry added with add(), and the indicator once it is empty.
+     * @param item - The entry returned by add().
+     */
+    remove(item: HTMLLIElement): void {
+        item.remove();
+        if (this.#list?.childElementCount === 0) {
+            this.#host?.remove();
+            this.#host = undefined;
+            this.#list = undefined;
+        }
+    }
+
+    #getList(): HTMLUListElement {
+        if (this.#list) {
+            return this.#list;
+        }
+        const host = document.createElement('div');
+        host.setAttribute('trust', 'trustMetadata');
+        const shadowRoot = host.attachShadow({ mode: 'open' });
+        const container = document.createElement('div');
+        container.setAttribute('style', [
+            'position: fixed',
+            'right: 1em',
+            'bottom: 1em',
+            'z-index: 10000',
+            'padding: 0.4em 0.6em',
+            'border: 1px solid #808080',
+            'border-radius: 0.4em',
+            'background: #EEEEEE',
+            'font: 12px Verdana, sans-serif',
+            'color: #101010',
+        ].join(';'));
+        const title = document.createElement('div');
+        title.textContent = 'Trust URIs in page metadata';
+        title.style.fontWeight = '600';
+        const list = document.createElement('ul');
+        list.setAttribute('style', 'list-style: none; margin: 0.3em 0 0 0; padding: 0;');
+        container.append(title, list);
+        shadowRoot.appendChild(container);
+        document.body.appendChild(host);
+        this.#host = host;
+        this.#list = list;
+        return list;
+    }
+}
@@ -1,14 +1,38 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { lookupTrustUri } from './xpoc-lib.js';
+import {
+    clearTrustTxtCache,
+    lookupTrustUri,
+    resolveTrustGraph,
+} from './xpoc-lib.js';
 
 console.log('Validator offscreen.js loaded');
 
 chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     if (request?.type === 'lookupTrustUri') {
-        lookupTrustUri(request.tabUrl, request.url).then((result) => {
-            sendResponse(result);
+        lookupTrustUri(request.tabUrl, request.url, request.options)
+            .then((result) => {
+                sendResponse(result);
+            })
+            .catch((error) => {
+                sendResponse({ type: 'error', baseurl: request.url, message: String(error?.message ?? error) });
+            });
+    }
+
+    if (request?.type === 'resolveTrustGraph') {
+        resolveTrustGraph(request.url, request.options)
+            .then((result) => {
+                sendResponse(result);
+            })
+            .catch((error) => {
+                sendResponse({ type: 'error', baseurl: request.url, message: String(error?.message ?? error) });
+            });
+    }
+
+    if (request?.type === 'clearTrustTxtCache') {
+        clearTrustTxtCache().then(() => {
+            sendResponse();
         });
     }
 
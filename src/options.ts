@@ -0,0 +1,174 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { debug } from './xpoc-lib';
+
+import { pruneHistory } from './history';
+import { validatePlatformRule, type PlatformRule } from './platforms';
+import {
+    DEFAULT_SETTINGS,
+    getSettings,
+    saveSettings,
+    SETTINGS_KEYS,
+    type Settings,
+    type SettingsErrors,
+} from './settings';
+
+/*
+    Every setting but the platforms is a field of the settings form, named after its key.
+    Platforms are added and removed one at a time, and saved at once.
+*/
+const FORM_KEYS = SETTINGS_KEYS.filter((key) => key !== 'platformRules');
+
+const settingsForm = document.getElementById('settings-form') as HTMLFormElement;
+const settingsStatus = document.getElementById('settings-status') as HTMLSpanElement;
+
+document.addEventListener('DOMContentLoaded', () => {
+    getSettings().then((settings) => {
+        if (debug) { console.log('Validator - options: settings', settings); }
+        showSettings(settings);
+        showPlatformRules(settings.platformRules);
+    });
+});
+
+settingsForm.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    const changes = readSettings();
+    const errors = await saveSettings(changes);
+    showErrors(errors ?? {});
+    settingsStatus.textContent = errors ? '' : 'Saved';
+    if (!errors && changes.historyLimit !== undefined) {
+        await pruneHistory(changes.historyLimit);
+    }
+});
+
+// the form keeps the defaults until they are saved
+(document.getElementById('restore-defaults') as HTMLButtonElement).addEventListener('click', () => {
+    showSettings(DEFAULT_SETTINGS);
+    showErrors({});
+    settingsStatus.textContent = '';
+});
+
+settingsForm.addEventListener('input', () => {
+    settingsStatus.textContent = '';
+    updateEndpointField();
+});
+
+/**
+ * Fills the settings form.
+ * @param settings - The settings to show.
+ */
+function showSettings(settings: Settings): void {
+    for (const key of FORM_KEYS) {
+        const field = settingsForm.elements.namedItem(key);
+        if (field instanceof HTMLInputElement && field.type === 'checkbox') {
+            field.checked = settings[key] as boolean;
+        } else if (field) {
+            (field as HTMLInputElement | HTMLSelectElement | RadioNodeList).value = String(settings[key]);
+        }
+    }
+    updateEndpointField();
+}
+
+/**
+ * Reads the settings form. Values are not validated: numbers that cannot be read are NaN.
+ * @returns The settings of the form.
+ */
+function readSettings(): Partial<Settings> {
+    return Object.fromEntries(
+        FORM_KEYS.map((key) => {
+            const field = settingsForm.elements.namedItem(key) as HTMLInputElement | HTMLSelectElement | RadioNodeList;
+            if (field instanceof HTMLInputElement && field.type === 'checkbox') {
+                return [key, field.checked];
+            }
+            const value = field.value.trim();
+            return [key, typeof DEFAULT_SETTINGS[key] === 'number' ? (value === '' ? NaN : Number(value)) : value];
+        }),
+    );
+}
+
+/**
+ * Shows the error of each setting next to its field, and clears the others.
+ * @param errors - The errors by setting.
+ */
+function showErrors(errors: SettingsErrors): void {
+    settingsForm.querySelectorAll<HTMLElement>('[data-error-for]').forEach((element) => {
+        const keys = (element.dataset.errorFor ?? '').split(' ') as Array<keyof Settings>;
+        element.textContent = keys
+            .map((key) => errors[key]?.message)
+            .filter((message) => message)
+            .join('; ');
+    });
+}
+
+/**
+ * The endpoint is only used by the remote validator.
+ */
+function updateEndpointField(): void {
+    const mode = (settingsForm.elements.namedItem('validatorMode') as RadioNodeList).value;
+    (settingsForm.elements.namedItem('validatorEndpoint') as HTMLInputElement).disabled = mode !== 'remote';
+}
+
+const platformRuleForm = document.getElementById(
+    'platform-rule-form',
+) as HTMLFormElement;
+
+const platformRuleError = document.getElementById(
+    'platform-rule-error',
+) as HTMLParagraphElement;
+
+platformRuleForm.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    if (debug) { console.log('Validator - addEventListener: platform rule added'); }
+    const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value.trim();
+    const rule: PlatformRule = {
+        name: value('platform-rule-name'),
+        host: value('platform-rule-host'),
+        path: value('platform-rule-path'),
+    };
+    const error = validatePlatformRule(rule);
+    platformRuleError.textContent = error?.message ?? '';
+    if (error) {
+        return;
+    }
+    const rules = [...(await getSettings()).platformRules, rule];
+    const errors = await saveSettings({ platformRules: rules });
+    platformRuleError.textContent = errors?.platformRules?.message ?? '';
+    if (errors) {
+        return;
+    }
+    showPlatformRules(rules);
+    platformRuleForm.reset();
+});
+
+/**
+ * Lists the user-defined platforms, each with a button to remove it.
+ * @param rules - The rules to list.
+ */
+function showPlatformRules(rules: PlatformRule[]): void {
+    const list = document.getElementById('platform-rules-list') as HTMLUListElement;
+    list.innerHTML = '';
+    rules.forEach((rule, index) => {
+        const item = document.createElement('li');
+        item.textContent = `${rule.name}: ${rule.host}${rule.path}`;
+        const remove = document.createElement('button');
+        remove.textContent = 'Remove';
+        remove.addEventListener('click', async () => {
+            const remaining = (await getSettings()).platformRules.filter((_, i) => i !== index);
+            await saveSettings({ platformRules: remaining });
+            showPlatformRules(remaining);
+        });
+        item.appendChild(remove);
+        list.appendChild(item);
+    });
+}
+
+const clearCacheButton = document.getElementById(
+    'clear-cache-button',
+) as HTMLButtonElement;
+
+clearCacheButton.addEventListener('click', async () => {
+    if (debug) { console.log('Validator - addEventListener: clear cache clicked'); }
+    clearCacheButton.disabled = true;
+    await chrome.runtime.sendMessage({ action: 'clearTrustTxtCache' });
+    clearCacheButton.textContent = 'Cache cleared';
+});
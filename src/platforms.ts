@@ -0,0 +1,223 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { getHost } from './domain';
+
+/**
+ * An account on a platform, in canonical form.
+ */
+export type CanonicalAccount = {
+    /** the platform's display name; empty for the generic URL matcher */
+    platform: string;
+    account: string;
+};
+
+/**
+ * Downloads the text at a URL for a platform resolver; redirects are followed.
+ */
+export type ResolverFetch = (url: string) => Promise<string | Error>;
+
+/**
+ * Recognizes the account URLs of one platform and reduces them to a canonical account,
+ * so that two URLs of the same account compare equal; case folding is up to the matcher.
+ */
+export type PlatformMatcher = {
+    name: string;
+    /**
+     * @returns The canonical account, or undefined if the URL is not an account URL of this platform.
+     */
+    canonicalize: (url: string) => CanonicalAccount | undefined;
+    /**
+     * Looks up the other identifiers of an account listed in a trust.txt file, e.g. through WebFinger.
+     * Only listed accounts are resolved: the page's own server is never trusted to vouch for it.
+     * @returns The canonical accounts that are the same account.
+     */
+    resolve?: (account: CanonicalAccount, fetch: ResolverFetch) => Promise<CanonicalAccount[]>;
+};
+
+/**
+ * A user-defined platform, as entered on the options page.
+ * `path` is a pattern such as `/@{account}` or `/users/{account}`; it must contain `{account}` once.
+ */
+export type PlatformRule = {
+    name: string;
+    host: string;
+    path: string;
+};
+
+const ACCOUNT_PLACEHOLDER = '{account}';
+
+/**
+ * Matches any web URL: the account is the URL without scheme, www, query, fragment or trailing slash.
+ * The path keeps its case since only the host is case-insensitive.
+ */
+export const genericPlatformMatcher: PlatformMatcher = {
+    name: 'URL',
+    canonicalize: (url) => {
+        const parsed = parseWebUrl(url);
+        const host = parsed && getHost(parsed.href);
+        if (!parsed || !host) {
+            return undefined;
+        }
+        return { platform: '', account: `${host}${getPath(parsed)}` };
+    },
+};
+
+/**
+ * Checks that a user-defined platform rule can be compiled.
+ * @param rule - The rule to check.
+ * @returns An Error describing the first problem, or undefined if the rule is valid.
+ */
+export function validatePlatformRule(rule: PlatformRule): Error | undefined {
+    if (!rule.name?.trim()) {
+        return new Error('The platform needs a name');
+    }
+    if (!getHost(rule.host ?? '')) {
+        return new Error(`"${rule.host}" is not a valid host`);
+    }
+    if (!rule.path?.startsWith('/')) {
+        return new Error(`The path pattern "${rule.path}" must start with "/"`);
+    }
+    if (rule.path.split(ACCOUNT_PLACEHOLDER).length !== 2) {
+        return new Error(`The path pattern "${rule.path}" must contain ${ACCOUNT_PLACEHOLDER} exactly once`);
+    }
+    return undefined;
+}
+
+/**
+ * Compiles a user-defined platform rule into a matcher.
+ * The host matches with or without www; the account is one path segment and is compared case-insensitively.
+ * @param rule - The rule, e.g. `{ name: 'Forum', host: 'forum.example', path: '/u/{account}' }`.
+ * @returns The matcher, or an Error if the rule is invalid.
+ */
+export function compilePlatformRule(rule: PlatformRule): PlatformMatcher | Error {
+    const error = validatePlatformRule(rule);
+    if (error) {
+        return error;
+    }
+    const host = getHost(rule.host) as string;
+    const [before, after] = rule.path.replace(/\/+$/, '').split(ACCOUNT_PLACEHOLDER);
+    const pattern = new RegExp(`^${escapeRegExp(before)}([^/]+)${escapeRegExp(after)}$`, 'i');
+    const name = rule.name.trim();
+    return {
+        name,
+        canonicalize: (url) => {
+            const parsed = parseWebUrl(url);
+            if (!parsed || getHost(parsed.href) !== host) {
+                return undefined;
+            }
+            const match = pattern.exec(getPath(parsed));
+            const account = match && safeDecode(match[1]);
+            if (!account) {
+                return undefined;
+            }
+            return { platform: name, account: account.toLowerCase() };
+        },
+    };
+}
+
+/**
+ * Builds the matchers used to compare account URLs, in priority order:
+ * the user-defined rules, then the given built-in matchers, then the generic URL matcher.
+ * Invalid rules are skipped.
+ * @param builtIns - Matchers for the platforms known to the extension.
+ * @param rules - User-defined platform rules.
+ * @returns The matchers.
+ */
+export function createPlatformRegistry(
+    builtIns: PlatformMatcher[],
+    rules: PlatformRule[] = [],
+): PlatformMatcher[] {
+    const custom = rules
+        .map(compilePlatformRule)
+        .filter((matcher): matcher is PlatformMatcher => !(matcher instanceof Error));
+    return [...custom, ...builtIns, genericPlatformMatcher];
+}
+
+/**
+ * Compares an account URL listed in a trust.txt file with the URL of a page.
+ * The first matcher that recognizes the listed URL decides; the page must be the same account on that platform.
+ * @param registry - The matchers, from createPlatformRegistry.
+ * @param accountUrl - The URL listed in the trust.txt file.
+ * @param pageUrl - The URL of the page.
+ * @returns The canonical account if the page is that account, otherwise undefined.
+ */
+export function matchAccountUrl(
+    registry: PlatformMatcher[],
+    accountUrl: string,
+    pageUrl: string,
+): CanonicalAccount | undefined {
+    for (const matcher of registry) {
+        const listed = matcher.canonicalize(accountUrl);
+        if (!listed) {
+            continue;
+        }
+        const page = matcher.canonicalize(pageUrl);
+        const same = page?.platform === listed.platform && page.account === listed.account;
+        return same ? listed : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Compares an account listed in a trust.txt file with the URL of a page through the listed account's aliases,
+ * for platforms where one account has several identifiers (e.g. a Fediverse handle on the publisher's domain).
+ * Call this only when matchAccountUrl found nothing since it may download files.
+ * @param registry - The matchers, from createPlatformRegistry.
+ * @param accountUrl - The URL or handle listed in the trust.txt file.
+ * @param pageUrl - The URL of the page.
+ * @param fetch - Downloads the files needed to resolve the account.
+ * @returns The listed canonical account if the page is one of its aliases, otherwise undefined.
+ */
+export async function resolveAccountUrl(
+    registry: PlatformMatcher[],
+    accountUrl: string,
+    pageUrl: string,
+    fetch: ResolverFetch,
+): Promise<CanonicalAccount | undefined> {
+    const matcher = registry.find((matcher) => matcher.canonicalize(accountUrl));
+    const listed = matcher?.canonicalize(accountUrl);
+    const page = matcher?.canonicalize(pageUrl);
+    // nothing to resolve unless the page is an account on the same platform
+    if (!matcher?.resolve || !listed || !page) {
+        return undefined;
+    }
+    const aliases = await matcher.resolve(listed, fetch);
+    const same = aliases.some((alias) => alias.platform === page.platform && alias.account === page.account);
+    return same ? listed : undefined;
+}
+
+/**
+ * Parses a URL, accepting only http and https URLs.
+ */
+export function parseWebUrl(url: string): URL | undefined {
+    try {
+        const parsed = new URL(url.trim());
+        return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? parsed : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Returns the path of a URL without repeated or trailing slashes.
+ */
+function getPath(url: URL): string {
+    return url.pathname.replace(/\/{2,}/g, '/').replace(/\/+$/, '');
+}
+
+/**
+ * Decodes a percent-encoded URL component.
+ * @returns The decoded value, or undefined if the value holds a malformed escape sequence.
+ */
+export function safeDecode(value: string): string | undefined {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return undefined;
+    }
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
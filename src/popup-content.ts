@@ -0,0 +1,211 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describeSource, type TrustUriSource } from './extractors';
+import { formatFetchedAt, getPublisherProfile, type ProfileValue } from './profile';
+import { getRelationshipLevel, type RelationshipCheck } from './reciprocal';
+import { getSignatureLevel, type SignatureCheck } from './signature';
+import { type TrustTxtDiagnostic, type TrustTxtFile } from './trust-txt';
+import { type TrustValidationEntry } from './validator';
+
+/*
+    What the content popup shows. Most values come from remote trust.txt files and validator
+    responses, so the popup never parses markup: each cell is built into DOM nodes by ContentPopup,
+    and links are only created for the schemes in SAFE_URL_SCHEMES.
+*/
+
+export type BadgeLevel = 'valid' | 'warning' | 'invalid';
+
+export type PopupCell =
+    | { type: 'text'; text: string }
+    | { type: 'link'; text: string; href: string }
+    | { type: 'list'; items: PopupCell[] }
+    | { type: 'badge'; text: string; level: BadgeLevel };
+
+export type PopupRow = {
+    label: string;
+    value: PopupCell;
+};
+
+/**
+ * A table of the popup: an optional title and label/value rows.
+ */
+export type PopupTable = {
+    title?: string;
+    rows: PopupRow[];
+};
+
+export const SAFE_URL_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/**
+ * Returns a URL that is safe to open from a link: absolute, with a scheme in SAFE_URL_SCHEMES.
+ * @param href - The URL, as found in a remote file.
+ * @returns The normalized URL, or undefined if it must not be linked.
+ */
+export function getSafeHref(href: string): string | undefined {
+    let url: URL;
+    try {
+        url = new URL(href.trim());
+    } catch {
+        return undefined;
+    }
+    return SAFE_URL_SCHEMES.includes(url.protocol) ? url.href : undefined;
+}
+
+export function textCell(text: string): PopupCell {
+    return { type: 'text', text };
+}
+
+/**
+ * Creates a link cell, or a text cell when the URL is not safe to open.
+ * @param href - The link target.
+ * @param text - The link text; the URL itself by default.
+ * @returns The cell.
+ */
+export function linkCell(href: string, text: string = href): PopupCell {
+    const safeHref = getSafeHref(href);
+    return safeHref ? { type: 'link', text, href: safeHref } : { type: 'text', text };
+}
+
+export function listCell(items: PopupCell[]): PopupCell {
+    return { type: 'list', items };
+}
+
+export function badgeCell(text: string, level: BadgeLevel): PopupCell {
+    return { type: 'badge', text, level };
+}
+
+/**
+ * Creates a row; a string value becomes a text cell.
+ */
+export function row(label: string, value: PopupCell | string): PopupRow {
+    return { label, value: typeof value === 'string' ? textCell(value) : value };
+}
+
+/**
+ * Builds the table telling where a trust URI that is not in the page text was found.
+ *
+ * @param source - Where the trust URI was found.
+ * @returns An empty array for text, otherwise a single table.
+ */
+export function getSourceTables(source?: TrustUriSource): PopupTable[] {
+    if (!source || source.kind === 'text') {
+        return [];
+    }
+    return [{ title: 'Found in', rows: [row('Source', describeSource(source))] }];
+}
+
+/**
+ * Builds the popup table describing the relationship check of an account.
+ *
+ * @param relationship - The relationship check, if one was made.
+ * @returns An empty array when the relationship was not checked, otherwise a single table.
+ */
+export function getRelationshipTables(relationship?: RelationshipCheck): PopupTable[] {
+    if (!relationship) {
+        return [];
+    }
+    return [
+        {
+            title: 'Relationship',
+            rows: [
+                row('Status', badgeCell(relationship.state, getRelationshipLevel(relationship))),
+                row('Message', relationship.message),
+            ],
+        },
+    ];
+}
+
+/**
+ * Builds the popup table describing the signature check of the trust.txt file.
+ *
+ * @param signature - The signature check, if one was made.
+ * @returns An empty array when the signature was not checked, otherwise a single table.
+ */
+export function getSignatureTables(signature?: SignatureCheck): PopupTable[] {
+    if (!signature) {
+        return [];
+    }
+    return [
+        {
+            title: 'Signature',
+            rows: [
+                row('Status', badgeCell(signature.status, getSignatureLevel(signature))),
+                row('Message', signature.message),
+            ],
+        },
+    ];
+}
+
+/**
+ * Builds the popup table listing the problems found while parsing the trust.txt file.
+ *
+ * @param diagnostics - The trust.txt parser diagnostics, if any.
+ * @returns An empty array when there is nothing to report, otherwise a single table.
+ */
+export function getDiagnosticsTables(diagnostics?: TrustTxtDiagnostic[]): PopupTable[] {
+    if (!diagnostics || diagnostics.length === 0) {
+        return [];
+    }
+    const lines = new Map<number, string[]>();
+    for (const diagnostic of diagnostics) {
+        lines.set(diagnostic.line, [
+            ...(lines.get(diagnostic.line) ?? []),
+            `${diagnostic.severity}: ${diagnostic.message}`,
+        ]);
+    }
+    return [
+        {
+            title: 'trust.txt problems',
+            rows: [...lines].map(([line, messages]) => row(`Line ${line}`, messages.join('; '))),
+        },
+    ];
+}
+
+/**
+ * Builds one table per organization checked by a same-domain validation.
+ *
+ * @param list - The validation rows.
+ * @returns The tables, in the order of the rows.
+ */
+export function getValidationTables(list: TrustValidationEntry[]): PopupTable[] {
+    return list.map((item) => ({
+        rows: [
+            // the status comes from the validator: anything unexpected is only a warning
+            row('Status', badgeCell(item.status, item.status === 'found' ? 'valid' : item.status === 'not found' ? 'invalid' : 'warning')),
+            row('Message', item.message),
+        ],
+    }));
+}
+
+/**
+ * Builds the publisher profile tables: one table per group of trust.txt fields,
+ * followed by where and when the file was fetched.
+ *
+ * @param file - The resolved trust.txt file, if any.
+ * @param source - The URL that served the file.
+ * @param fetchedAt - When the file was fetched (ms since epoch).
+ * @returns An empty array when there is no file.
+ */
+export function getProfileTables(file?: TrustTxtFile, source?: string, fetchedAt?: number): PopupTable[] {
+    if (!file) {
+        return [];
+    }
+    const tables: PopupTable[] = getPublisherProfile(file).map((group) => ({
+        title: group.title,
+        rows: group.fields.map((field) =>
+            row(
+                field.label,
+                field.values.length === 1 ? getProfileCell(field.values[0]) : listCell(field.values.map(getProfileCell)),
+            ),
+        ),
+    }));
+    const fileRows: PopupRow[] = [];
+    source && fileRows.push(row('Source', linkCell(source)));
+    fetchedAt && fileRows.push(row('Fetched', formatFetchedAt(fetchedAt)));
+    return fileRows.length > 0 ? [...tables, { title: 'trust.txt file', rows: fileRows }] : tables;
+}
+
+function getProfileCell(value: ProfileValue): PopupCell {
+    return value.href ? linkCell(value.href, value.text) : textCell(value.text);
+}
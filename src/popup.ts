@@ -2,9 +2,21 @@
 // Licensed under the MIT license.
 import { debug } from './xpoc-lib';
 
-import { type trustResultSet } from './background';
+import { type storedTrustResult, type trustResultSet } from './background';
 import { getLocalStorage } from './storage';
-import { type lookupTrustUriResult } from './xpoc-lib';
+import {
+    type lookupTrustUriResult,
+    type resolveTrustGraphResult,
+    type TrustTxtDiagnostic,
+    type TrustTxtFile,
+} from './xpoc-lib';
+import { describeTrustGraph } from './graph';
+import { describeSelector } from './trust-uri';
+import { formatFetchedAt, getPublisherProfile, type ProfileValue } from './profile';
+import { getSafeHref } from './popup-content';
+import { getResultListRows, type ResultListRow } from './result-list';
+import { type TrustValidationEntry } from './validator';
+import { aggregateResults, type PageVerdict } from './verdict';
 
 document.addEventListener('DOMContentLoaded', function (): void {
     // Add event listeners to switch tabs
@@ -29,50 +41,24 @@ document.addEventListener('DOMContentLoaded', function (): void {
     });
 });
 
-const autoVerifyTrustUris = document.getElementById(
-    'auto-verify-trust-uri-toggle',
-) as HTMLInputElement;
-
-chrome.storage.local.get(['autoVerifyTrustUris'], (result) => {
-    autoVerifyTrustUris.checked = !!result?.autoVerifyTrustUris;
-});
-
-autoVerifyTrustUris.addEventListener('change', async () => {
-    if (debug) { console.log('Validator - addEventListener: autoVerifyTrustUris changed'); }
-    const checked = autoVerifyTrustUris.checked;
-    chrome.storage.local.set({ autoVerifyTrustUris: checked }, async () => {
-        const activeTab = await getActiveTab();
-        if (activeTab.id) {
-            chrome.tabs.sendMessage(activeTab.id, {
-                action: 'autoScanUpdated',
-                autoScan: checked,
-            });
-        }
-        if (debug) { console.log('Validator = addEventListener: autoVerifyTrustUris is set to ' + checked); }
-    });
+(document.getElementById('open-options') as HTMLButtonElement).addEventListener('click', () => {
+    chrome.runtime.openOptionsPage();
 });
 
 /**
- * The function `getTrustResultsForCurrentTab` retrieves trust results from local storage for the current
+ * The function `getTrustResultsForCurrentTab` retrieves trust results from session storage for the current
  * tab's URL.
- * @returns an array of objects, where each object has a key-value pair. The key is a string
- * representing an trust URI, and the value is a lookupTrustUriResult.
+ * @returns an object mapping each trust URI checked on the page to its stored lookup result.
  */
-async function getTrustResultsForCurrentTab(): Promise<
-    { [trustUri: string]: lookupTrustUriResult }[]
-> {
+async function getTrustResultsForCurrentTab(): Promise<{ [trustUri: string]: storedTrustResult }> {
     const storageObj = ((await getLocalStorage('trustResults')) as {
         trustResults: trustResultSet;
     }) ?? { trustResults: {} };
     const currentTabUrl = await getActiveTabUrl().catch(() => '');
     if (!currentTabUrl || !storageObj || !storageObj.trustResults) {
-        return [];
+        return {};
     }
-    const obj = storageObj.trustResults[currentTabUrl];
-    if (!obj) {
-        return [];
-    }
-    return Object.keys(obj).map((key) => ({ [key]: obj[key] }));
+    return storageObj.trustResults[currentTabUrl] ?? {};
 }
 
 /**
@@ -116,7 +102,7 @@ async function showResults() {
     // check for trust result
     const originInfo = document.getElementById('origin-info') as HTMLDivElement;
     const trustResults = await getTrustResultsForCurrentTab();
-    if (trustResults.length > 0) {
+    if (Object.keys(trustResults).length > 0) {
         // hide the 'no-origin' div
         const noOrigin = document.getElementById('no-origin') as HTMLDivElement;
         noOrigin.style.display = 'none';
@@ -126,32 +112,304 @@ async function showResults() {
 
         // clear the origin info div
         originInfo.innerHTML = '';
-        // we only show the first result (TODO: handle multiple; could be the same one, need to make more robust)
-        const trustResult = Object.values(
-            trustResults[0],
-        )[0] as lookupTrustUriResult;
-        if (debug) { console.log('Validator - showResults: Trust result:', trustResult.type); }
-        if (trustResult.type === 'account') {
-            let account = '';
-            let platform = '';
-            let prefix = '';
-            const baseurl = `https://${trustResult.baseurl}`;
-            const url = `${baseurl}/.well-known/trust.txt`;
-            if (trustResult.type == 'account') {
-                account = trustResult.account.account;
-                platform = trustResult.account.platform;
-                prefix = `${platform} account "${account}"`;
-            }
-            const resultDiv = document.createElement('div');
-            resultDiv.classList.add('result');
-            if (trustResult) {
-                resultDiv.innerHTML = `
-          <div class="trust-result-info">
-            ${prefix} found in ${trustResult.name}'s <a href="${url}" target="_blank">manifest</a> at <a href="${baseurl}" target="_blank">${trustResult.baseurl}</a><br>
-          </div>
-        `;
+        const verdict = aggregateResults(trustResults);
+        if (debug) { console.log('Validator - showResults: verdict:', verdict); }
+        originInfo.appendChild(createVerdictPanel(verdict));
+        const list = document.createElement('ul');
+        list.classList.add('result-list');
+        for (const row of getResultListRows(trustResults)) {
+            list.appendChild(createResultRow(row, trustResults[row.trustUri]));
+        }
+        originInfo.appendChild(list);
+    }
+}
+
+/**
+ * Creates the panel with the combined verdict of the page and its conflicts.
+ * @param verdict - The page verdict.
+ * @returns The panel element.
+ */
+function createVerdictPanel(verdict: PageVerdict): HTMLElement {
+    const panel = document.createElement('div');
+    panel.classList.add('verdict', verdict.level);
+    const summary = document.createElement('p');
+    summary.classList.add('verdict-summary');
+    summary.textContent = verdict.summary;
+    panel.appendChild(summary);
+    if (verdict.conflicts.length > 0) {
+        const conflicts = document.createElement('ul');
+        conflicts.classList.add('conflicts');
+        for (const conflict of verdict.conflicts) {
+            const item = document.createElement('li');
+            item.textContent = conflict.message;
+            conflicts.appendChild(item);
+        }
+        panel.appendChild(conflicts);
+    }
+    return panel;
+}
+
+/**
+ * Creates the list item of one checked trust URI: its status, matched account, source file and
+ * time checked, and a button that expands the details of the result.
+ * @param row - The row of the result list.
+ * @param trustResult - The stored lookup result.
+ * @returns The list item.
+ */
+function createResultRow(row: ResultListRow, trustResult: lookupTrustUriResult): HTMLLIElement {
+    const item = document.createElement('li');
+    item.classList.add('result-row', row.level);
+
+    const header = document.createElement('div');
+    header.classList.add('result-header');
+    const status = document.createElement('span');
+    status.classList.add('status', row.level);
+    status.textContent = row.status;
+    const uri = document.createElement('code');
+    uri.textContent = row.trustUri;
+    header.append(status, ' ', uri);
+    item.appendChild(header);
+
+    const summary = document.createElement('p');
+    summary.classList.add('result-summary');
+    summary.textContent = row.summary;
+    item.appendChild(summary);
+
+    const facts = document.createElement('dl');
+    facts.classList.add('result-facts');
+    const addFact = (label: string, value: Node | string) => {
+        const term = document.createElement('dt');
+        term.textContent = label;
+        const description = document.createElement('dd');
+        description.append(value);
+        facts.append(term, description);
+    };
+    row.account && addFact('Account', row.account);
+    row.source && addFact('Source', createProfileValue({ text: row.source, href: row.source }));
+    row.checkedAt && addFact('Checked', formatFetchedAt(row.checkedAt));
+    facts.childNodes.length > 0 && item.appendChild(facts);
+
+    // the details, and the relationship graph they resolve, are only built when first expanded
+    const details = document.createElement('div');
+    details.classList.add('result-details');
+    details.hidden = true;
+    const toggle = document.createElement('button');
+    toggle.classList.add('result-toggle');
+    toggle.textContent = 'Show details';
+    toggle.setAttribute('aria-expanded', 'false');
+    toggle.addEventListener('click', () => {
+        if (details.childNodes.length === 0) {
+            showTrustResult(details, row, trustResult);
+        }
+        details.hidden = !details.hidden;
+        toggle.textContent = details.hidden ? 'Show details' : 'Hide details';
+        toggle.setAttribute('aria-expanded', String(!details.hidden));
+    });
+    item.append(toggle, details);
+    return item;
+}
+
+/**
+ * Creates the table of a same-domain validation: one row per organization checked.
+ * @param list - The validation rows.
+ * @returns The table element.
+ */
+function createValidationTable(list: TrustValidationEntry[]): HTMLTableElement {
+    const table = document.createElement('table');
+    table.classList.add('validation');
+    const header = table.createTHead().insertRow();
+    for (const title of ['Domain', 'Status', 'Message']) {
+        const cell = document.createElement('th');
+        cell.textContent = title;
+        header.appendChild(cell);
+    }
+    const body = table.createTBody();
+    for (const entry of list) {
+        const tableRow = body.insertRow();
+        // the status comes from the validator: anything unexpected is only a warning
+        tableRow.classList.add(entry.status === 'found' ? 'valid' : entry.status === 'not found' ? 'invalid' : 'warning');
+        for (const value of [entry.domain, entry.status, entry.message]) {
+            tableRow.insertCell().textContent = value;
+        }
+    }
+    return table;
+}
+
+/**
+ * Displays the details of one trust URI result.
+ * @param container - The element to append the details to.
+ * @param row - The row of the result list.
+ * @param trustResult - Its lookup result.
+ */
+function showTrustResult(container: HTMLElement, row: ResultListRow, trustResult: lookupTrustUriResult): void {
+    if (debug) { console.log('Validator - showTrustResult: Trust result:', trustResult.type); }
+    if (trustResult.type === 'account') {
+        const baseurl = `https://${trustResult.baseurl}`;
+        const account = trustResult.account.account;
+        const platform = trustResult.account.platform;
+        const resultDiv = document.createElement('div');
+        resultDiv.classList.add('result', 'trust-result-info');
+        resultDiv.append(
+            `${platform} account "${account}" found in the ${describeSelector(trustResult.selector)} of ${trustResult.name}'s `,
+            createProfileValue({ text: 'manifest', href: row.source }),
+            ' at ',
+            createProfileValue({ text: trustResult.baseurl, href: baseurl }),
+        );
+        container.appendChild(resultDiv);
+        if (trustResult.relationship) {
+            const relationshipDiv = document.createElement('div');
+            relationshipDiv.classList.add('relationship', trustResult.relationship.state);
+            relationshipDiv.textContent = `Relationship ${trustResult.relationship.state}: ${trustResult.relationship.message}`;
+            container.appendChild(relationshipDiv);
+        }
+    }
+    if (trustResult.type === 'multiple' && trustResult.list.length > 0) {
+        container.appendChild(createValidationTable(trustResult.list));
+    }
+    if (trustResult.type === 'error') {
+        const errorDiv = document.createElement('div');
+        errorDiv.classList.add('error-message');
+        errorDiv.textContent = trustResult.message;
+        container.appendChild(errorDiv);
+    }
+    if (trustResult.type !== 'error' && trustResult.signature) {
+        const signatureDiv = document.createElement('div');
+        signatureDiv.classList.add('signature', trustResult.signature.status);
+        signatureDiv.textContent = `Signature ${trustResult.signature.status}: ${trustResult.signature.message}`;
+        container.appendChild(signatureDiv);
+    }
+    if (
+        (trustResult.type === 'account' || trustResult.type === 'notFound') &&
+        trustResult.diagnostics?.length
+    ) {
+        container.appendChild(createDiagnosticsList(trustResult.diagnostics));
+    }
+    if (trustResult.type !== 'error' && trustResult.file) {
+        container.appendChild(
+            createProfilePanel(trustResult.file, trustResult.source, trustResult.fetchedAt),
+        );
+    }
+    showRelationships(container, row.trustUri).then(() => {
+        if (debug) { console.log('Validator - showTrustResult: relationships shown'); }
+    });
+}
+
+/**
+ * Resolves the trust relationship graph of a trust URI and appends it to the container.
+ * @param container - The element to append the relationships to.
+ * @param trustUri - The trust URI of the root organization.
+ * @returns A promise that resolves when the relationships are displayed.
+ */
+async function showRelationships(container: HTMLElement, trustUri: string): Promise<void> {
+    const result: resolveTrustGraphResult = await chrome.runtime.sendMessage({
+        action: 'resolveTrustGraph',
+        trustUri,
+    });
+    if (result?.type !== 'graph' || result.graph.edges.length === 0) {
+        return;
+    }
+    const relationships = document.createElement('div');
+    relationships.classList.add('relationships');
+    const heading = document.createElement('p');
+    heading.textContent = 'Trust relationships:';
+    relationships.appendChild(heading);
+    const list = document.createElement('ul');
+    for (const sentence of describeTrustGraph(result.graph)) {
+        const item = document.createElement('li');
+        item.textContent = sentence;
+        list.appendChild(item);
+    }
+    relationships.appendChild(list);
+    if (result.graph.truncated) {
+        const note = document.createElement('p');
+        note.textContent = 'Further relationships were not followed.';
+        relationships.appendChild(note);
+    }
+    container.appendChild(relationships);
+}
+
+/**
+ * Creates a list describing the problems found in the trust.txt file.
+ * @param diagnostics - The trust.txt parser diagnostics.
+ * @returns The list element.
+ */
+function createDiagnosticsList(diagnostics: TrustTxtDiagnostic[]): HTMLElement {
+    const container = document.createElement('div');
+    container.classList.add('diagnostics');
+    const heading = document.createElement('p');
+    heading.textContent = 'The trust.txt file is only partly valid:';
+    container.appendChild(heading);
+    const list = document.createElement('ul');
+    for (const diagnostic of diagnostics) {
+        const item = document.createElement('li');
+        item.classList.add(diagnostic.severity);
+        item.textContent = `Line ${diagnostic.line} (${diagnostic.code}): ${diagnostic.message}`;
+        list.appendChild(item);
+    }
+    container.appendChild(list);
+    return container;
+}
+
+
+/**
+ * Creates the publisher profile panel: every field of the trust.txt file grouped by type,
+ * followed by where and when the file was fetched.
+ * @param file - The resolved trust.txt file.
+ * @param source - The URL that served the file.
+ * @param fetchedAt - When the file was fetched (ms since epoch).
+ * @returns The panel element.
+ */
+function createProfilePanel(file: TrustTxtFile, source?: string, fetchedAt?: number): HTMLElement {
+    const panel = document.createElement('div');
+    panel.classList.add('profile');
+    const heading = document.createElement('h2');
+    heading.textContent = 'Publisher profile';
+    panel.appendChild(heading);
+    for (const group of getPublisherProfile(file)) {
+        const title = document.createElement('h3');
+        title.textContent = group.title;
+        panel.appendChild(title);
+        const list = document.createElement('dl');
+        for (const field of group.fields) {
+            const term = document.createElement('dt');
+            term.textContent = field.label;
+            list.appendChild(term);
+            for (const value of field.values) {
+                const description = document.createElement('dd');
+                description.appendChild(createProfileValue(value));
+                list.appendChild(description);
             }
-            originInfo.appendChild(resultDiv);
         }
+        panel.appendChild(list);
+    }
+    const footer = document.createElement('p');
+    footer.classList.add('profile-source');
+    if (source) {
+        footer.append('Fetched from ', createProfileValue({ text: source, href: source }));
+    }
+    if (fetchedAt) {
+        footer.append(`${source ? ' on' : 'Fetched on'} ${formatFetchedAt(fetchedAt)}`);
+    }
+    footer.childNodes.length > 0 && panel.appendChild(footer);
+    return panel;
+}
+
+/**
+ * Creates a link for a profile value, or plain text when it has no link.
+ * @param value - The profile value.
+ * @returns The element.
+ */
+function createProfileValue(value: ProfileValue): HTMLElement {
+    const href = value.href && getSafeHref(value.href);
+    if (!href) {
+        const span = document.createElement('span');
+        span.textContent = value.text;
+        return span;
     }
+    const link = document.createElement('a');
+    link.href = href;
+    link.target = '_blank';
+    link.rel = 'noopener noreferrer';
+    link.textContent = value.text;
+    return link;
 }
@@ -0,0 +1,126 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import {
+    EMAIL_PATTERN,
+    PHONE_PATTERN,
+    type TrustTxtFile,
+    type TrustTxtListVariable,
+} from './trust-txt';
+
+/**
+ * One value of a publisher profile field.
+ * `href` is only set when the value can safely be opened as a link.
+ */
+export type ProfileValue = {
+    text: string;
+    href?: string;
+};
+
+export type ProfileField = {
+    variable: keyof TrustTxtFile;
+    label: string;
+    values: ProfileValue[];
+};
+
+export type ProfileGroup = {
+    title: string;
+    fields: ProfileField[];
+};
+
+/*
+    How the trust.txt variables are grouped in the profile, in display order
+*/
+const GROUPS: { title: string; fields: [TrustTxtListVariable, string][] }[] = [
+    {
+        title: 'Contact',
+        fields: [
+            ['contact', 'Contact'],
+            ['disclosure', 'Disclosure'],
+        ],
+    },
+    {
+        title: 'Organization',
+        fields: [
+            ['controlledby', 'Controlled by'],
+            ['control', 'Controls'],
+            ['belongto', 'Member of'],
+            ['member', 'Members'],
+        ],
+    },
+    {
+        title: 'Business',
+        fields: [
+            ['vendor', 'Vendors'],
+            ['customer', 'Customers'],
+        ],
+    },
+    {
+        title: 'Social accounts',
+        fields: [['social', 'Accounts']],
+    },
+];
+
+/**
+ * Builds the publisher profile of a trust.txt file: every declared field, grouped by type.
+ * Fields without values are left out; data training is always shown since it has a default.
+ * @param file - The parsed trust.txt file.
+ * @returns The groups that have at least one field.
+ */
+export function getPublisherProfile(file: TrustTxtFile): ProfileGroup[] {
+    const groups: ProfileGroup[] = GROUPS.map((group) => ({
+        title: group.title,
+        fields: group.fields
+            .filter(([variable]) => file[variable].length > 0)
+            .map(([variable, label]) => ({
+                variable,
+                label,
+                values: file[variable].map((value) =>
+                    variable === 'contact' ? getContactValue(value) : getUrlValue(value),
+                ),
+            })),
+    }));
+    groups.push({
+        title: 'Data use',
+        fields: [
+            {
+                variable: 'datatrainingallowed',
+                label: 'AI training allowed',
+                values: [{ text: file.datatrainingallowed ? 'Yes' : 'No' }],
+            },
+        ],
+    });
+    return groups.filter((group) => group.fields.length > 0);
+}
+
+/**
+ * Formats the time a trust.txt file was fetched.
+ * @param fetchedAt - Milliseconds since the epoch.
+ * @returns A local date and time, e.g. "10/19/2026, 2:43:56 PM".
+ */
+export function formatFetchedAt(fetchedAt: number): string {
+    return new Date(fetchedAt).toLocaleString();
+}
+
+/**
+ * Links a URL-valued entry; only web URLs are linked.
+ */
+function getUrlValue(value: string): ProfileValue {
+    return /^https?:\/\//i.test(value) ? { text: value, href: value } : { text: value };
+}
+
+/**
+ * Links a contact entry: email addresses become mailto: links and phone numbers tel: links.
+ */
+function getContactValue(value: string): ProfileValue {
+    if (/^(mailto|tel):/i.test(value)) {
+        return { text: value.replace(/^(mailto|tel):/i, ''), href: value };
+    }
+    if (EMAIL_PATTERN.test(value)) {
+        return { text: value, href: `mailto:${value}` };
+    }
+    if (PHONE_PATTERN.test(value)) {
+        return { text: value, href: `tel:${value.replace(/[^0-9+]/g, '')}` };
+    }
+    return getUrlValue(value);
+}
@@ -0,0 +1,168 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { debug } from './xpoc-lib';
+
+import { isSameOrganization } from './domain';
+import { type ParsedTrustTxt, type TrustTxtFile } from './trust-txt';
+
+/**
+ * The trust.txt relations that are expected to be declared by both organizations.
+ */
+export type ReciprocalRelation =
+    | 'member'
+    | 'belongto'
+    | 'control'
+    | 'controlledby'
+    | 'vendor'
+    | 'customer';
+
+export const RECIPROCAL_RELATIONS: ReciprocalRelation[] = [
+    'member',
+    'belongto',
+    'control',
+    'controlledby',
+    'vendor',
+    'customer',
+];
+
+/**
+ * The entry the other organization must declare to confirm a relation.
+ */
+export const COUNTERPART: Record<ReciprocalRelation, ReciprocalRelation> = {
+    member: 'belongto',
+    belongto: 'member',
+    control: 'controlledby',
+    controlledby: 'control',
+    vendor: 'customer',
+    customer: 'vendor',
+};
+
+/**
+ * confirmed: the other organization declares the counterpart entry
+ * one-sided: the other organization's trust.txt does not mention the relation
+ * contradicted: the other organization declares a conflicting relation
+ * unreachable: the other organization's trust.txt could not be downloaded
+ */
+export type RelationshipState =
+    | 'confirmed'
+    | 'one-sided'
+    | 'contradicted'
+    | 'unreachable';
+
+/**
+ * The result of checking a relation declared by `from` about `to`.
+ */
+export type RelationshipCheck = {
+    from: string;
+    to: string;
+    relation: ReciprocalRelation;
+    state: RelationshipState;
+    message: string;
+};
+
+/**
+ * Verifies a relation from the other side by downloading the counterpart trust.txt file.
+ * @param from - The domain of the organization declaring the relation.
+ * @param relation - The declared relation.
+ * @param to - The domain of the organization the relation is about.
+ * @param download - Downloads and parses the trust.txt file for a trust URI.
+ * @returns A promise that resolves to the check result.
+ */
+export async function verifyRelationship(
+    from: string,
+    relation: ReciprocalRelation,
+    to: string,
+    download: (trustUri: string) => Promise<ParsedTrustTxt | Error>,
+): Promise<RelationshipCheck> {
+    const parsed = await download(`trust://${to}!`);
+    if (parsed instanceof Error) {
+        if (debug) { console.log('Validator - verifyRelationship: counterpart unreachable', to, parsed.message); }
+        return {
+            from,
+            to,
+            relation,
+            state: 'unreachable',
+            message: `Could not fetch the trust.txt file of ${to}: ${parsed.message}`,
+        };
+    }
+    return checkCounterpart(from, relation, to, parsed.file);
+}
+
+/**
+ * Checks a relation against the counterpart organization's already downloaded trust.txt file.
+ * @param from - The domain of the organization declaring the relation.
+ * @param relation - The declared relation.
+ * @param to - The domain of the counterpart organization.
+ * @param file - The counterpart organization's trust.txt file.
+ * @returns The check result.
+ */
+export function checkCounterpart(
+    from: string,
+    relation: ReciprocalRelation,
+    to: string,
+    file: TrustTxtFile,
+): RelationshipCheck {
+    const counterpart = COUNTERPART[relation];
+    const lists = (entries: string[]) =>
+        entries.some((entry) => isSameOrganization(entry, from));
+
+    if (lists(file[counterpart])) {
+        return {
+            from,
+            to,
+            relation,
+            state: 'confirmed',
+            message: `${to} declares ${counterpart}=${from}`,
+        };
+    }
+
+    // the other side claims the same role, e.g. both organizations claim to control each other
+    if (lists(file[relation])) {
+        return {
+            from,
+            to,
+            relation,
+            state: 'contradicted',
+            message: `${to} declares ${relation}=${from} instead of ${counterpart}=${from}`,
+        };
+    }
+
+    // an organization controlled by someone else contradicts a control claim
+    if (relation === 'control' && file.controlledby.length > 0) {
+        return {
+            from,
+            to,
+            relation,
+            state: 'contradicted',
+            message: `${to} declares a different controlling organization`,
+        };
+    }
+
+    return {
+        from,
+        to,
+        relation,
+        state: 'one-sided',
+        message: `${to} does not declare ${counterpart}=${from}`,
+    };
+}
+
+/**
+ * Returns how a relationship check affects the verdict shown to the user.
+ * Missing checks (verification disabled) and confirmed relations are valid,
+ * one-sided or unverifiable relations are a warning, contradicted relations are invalid.
+ * @param check - The relationship check, if any.
+ */
+export function getRelationshipLevel(
+    check?: RelationshipCheck,
+): 'valid' | 'warning' | 'invalid' {
+    switch (check?.state) {
+        case undefined:
+        case 'confirmed':
+            return 'valid';
+        case 'contradicted':
+            return 'invalid';
+        default:
+            return 'warning';
+    }
+}
@@ -0,0 +1,81 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { type storedTrustResult } from './background';
+import { getTrustTxtUrl, parseTrustUri } from './trust-uri';
+import { type TrustValidationEntry } from './validator';
+import { aggregateResults, type ResultLevel } from './verdict';
+
+/**
+ * One trust URI checked on a tab, as listed in the Origin tab of the toolbar popup.
+ */
+export type ResultListRow = {
+    trustUri: string;
+    level: ResultLevel;
+    /** a short status, e.g. "Verified" or "Not listed" */
+    status: string;
+    summary: string;
+    /** the matched account, for account results */
+    account?: string;
+    /** the trust.txt file that was checked */
+    source?: string;
+    /** when the trust URI was checked (ms since epoch) */
+    checkedAt?: number;
+    /** the per-domain rows of a same-domain validation */
+    list: TrustValidationEntry[];
+};
+
+const LEVEL_STATUS: Record<ResultLevel, string> = {
+    valid: 'Verified',
+    warning: 'Warning',
+    invalid: 'Failed',
+};
+
+/**
+ * Lists every trust URI checked on a tab, including the ones that failed, most recently checked first.
+ * @param results - The stored lookup results of the tab, by trust URI.
+ * @returns One row per trust URI.
+ */
+export function getResultListRows(results: { [trustUri: string]: storedTrustResult }): ResultListRow[] {
+    return aggregateResults(results)
+        .entries.map((entry) => {
+            const result = results[entry.trustUri];
+            return {
+                trustUri: entry.trustUri,
+                level: entry.level,
+                status: getStatus(result, entry.level),
+                summary: entry.summary,
+                account: result.type === 'account' ? formatAccount(result.account) : undefined,
+                source: getSource(entry.trustUri, result),
+                checkedAt: result.checkedAt,
+                list: result.type === 'multiple' ? result.list : [],
+            };
+        })
+        .sort((a, b) => (b.checkedAt ?? 0) - (a.checkedAt ?? 0));
+}
+
+function getStatus(result: storedTrustResult, level: ResultLevel): string {
+    switch (result.type) {
+        case 'notFound':
+            return 'Not listed';
+        case 'error':
+            return 'Error';
+        default:
+            return LEVEL_STATUS[level];
+    }
+}
+
+function formatAccount(account: { account: string; platform?: string }): string {
+    return account.platform ? `${account.platform}: ${account.account}` : account.account;
+}
+
+/**
+ * Returns the trust.txt file of a result; a file that could not be fetched is named by its well-known location.
+ */
+function getSource(trustUri: string, result: storedTrustResult): string | undefined {
+    if (result.type !== 'error' && result.source) {
+        return result.source;
+    }
+    const parsed = parseTrustUri(trustUri);
+    return parsed instanceof Error ? undefined : getTrustTxtUrl(parsed);
+}
@@ -1,43 +1,70 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
+import { type TrustUriExtractor, type TrustUriMatch } from './extractors';
+
+/*
+    Pages such as infinite-scroll feeds add nodes continuously. Mutations are queued and
+    scanned in idle-time slices, so scanning never blocks the page's own work.
+*/
+const IDLE_TIMEOUT = 1000;
+
+/**
+ * Dispatched by shadow-hook.ts on the host of each open shadow root the page attaches.
+ */
+export const SHADOW_ROOT_ATTACHED = 'trust-uri-shadow-root-attached';
+
+/*
+    `trust` attribute values of the shadow hosts the extension adds to the page
+*/
+const EXTENSION_HOSTS = ['trustPopup', 'trustMetadata'];
+
+type ScanTask = {
+    node: Node;
+    /** set when only an attribute of the node changed */
+    attribute?: string;
+};
+
 class DomScanner {
-    #addCallback: (node: Node) => void;
+    #addCallback: (match: TrustUriMatch) => void;
     #removeCallback: (node: Node) => void;
-    #test: (node: Node) => boolean;
+    #changeCallback: (node: Node) => void;
+    #extractors: TrustUriExtractor[];
     #observer: MutationObserver;
     #enabled: boolean = false;
+    #pending: ScanTask[] = [];
+    #idleHandle: number | undefined;
+    #shadowRoots = new WeakSet<ShadowRoot>();
 
     constructor(
-        test: (node: Node) => boolean,
-        addCallback: (node: Node) => void,
+        extractors: TrustUriExtractor[],
+        addCallback: (match: TrustUriMatch) => void,
         removeCallback: (node: Node) => void,
+        changeCallback: (node: Node) => void = () => {},
     ) {
-        this.#test = test;
+        this.#extractors = extractors;
         this.#addCallback = addCallback;
         this.#removeCallback = removeCallback;
-        this.#observer = new MutationObserver((mutationsList) => {
-            mutationsList.forEach((mutation) => {
-                /*
-                    only the top-level node(s) will be in this list
-                    so we need to scan the node and its children
-                 */
-                mutation.addedNodes.forEach((n) => this.scanDomText(n));
-                mutation.removedNodes.forEach((n) => this.scanDomText(n));
-            });
-        });
+        this.#changeCallback = changeCallback;
+        this.#observer = new MutationObserver((mutationsList) => this.queueMutations(mutationsList));
     }
 
+    #onShadowRootAttached = (event: Event): void => {
+        // the event is retargeted at each shadow boundary; the first node of its path is the real host
+        const host = event.composedPath()[0];
+        if (host instanceof Element && host.shadowRoot) {
+            this.addShadowRoot(host.shadowRoot);
+        }
+    };
+
     public start(): void {
         if (this.#enabled) {
             return;
         }
-        this.scanDomText(document.body);
-        this.#observer.observe(document.body, {
-            childList: true,
-            subtree: true,
-            attributes: true,
-        });
+        // metadata lives in <head>, so scan the whole document rather than just the body
+        this.queue({ node: document.documentElement });
+        this.observe(document.documentElement);
+        document.addEventListener(SHADOW_ROOT_ATTACHED, this.#onShadowRootAttached, true);
         this.#enabled = true;
     }
 
@@ -46,33 +73,179 @@ class DomScanner {
             return;
         }
         this.#observer.disconnect();
+        document.removeEventListener(SHADOW_ROOT_ATTACHED, this.#onShadowRootAttached, true);
+        // disconnecting stopped observing the shadow roots too
+        this.#shadowRoots = new WeakSet<ShadowRoot>();
+        this.#pending = [];
+        if (this.#idleHandle !== undefined) {
+            cancelIdleCallback(this.#idleHandle);
+            this.#idleHandle = undefined;
+        }
         this.#enabled = false;
     }
 
     /**
-     * Scans a DOM node and its children for passing the test
-     * For each matching text-node, the callback is invoked
+     * Scans the whole document again, e.g. after a single-page application showed a new view.
+     * Does nothing while the scanner is stopped.
+     *
+     * @returns {void}
+     */
+    public rescan(): void {
+        if (!this.#enabled) {
+            return;
+        }
+        this.stop();
+        this.start();
+    }
+
+    private observe(target: Node): void {
+        this.#observer.observe(target, {
+            childList: true,
+            subtree: true,
+            characterData: true,
+            attributes: true,
+            attributeFilter: this.#extractors.flatMap((extractor) => extractor.attributes),
+        });
+    }
+
+    /**
+     * Starts observing an open shadow root and queues it for scanning.
+     * Mutations inside a shadow root are not reported to observers of the document.
+     *
+     * @param {ShadowRoot} shadowRoot
+     * @returns {void}
+     * @private
+     */
+    private addShadowRoot(shadowRoot: ShadowRoot): void {
+        if (this.#shadowRoots.has(shadowRoot)) {
+            return;
+        }
+        this.#shadowRoots.add(shadowRoot);
+        this.observe(shadowRoot);
+        this.queue({ node: shadowRoot });
+    }
+
+    /**
+     * Queues the nodes added, the text edited and the attributes changed by a batch of mutations.
+     * Removals and changes are reported at once, so icons do not outlive their text.
      *
-     * @param {Element} rootNode
+     * @param {MutationRecord[]} mutationsList
      * @returns {void}
      * @private
      */
-    private scanDomText(rootNode: Node): void {
-        const walker = document.createTreeWalker(
-            rootNode,
-            NodeFilter.SHOW_TEXT,
-            {
-                acceptNode: (node: Node) => {
-                    return this.#test(node)
-                        ? NodeFilter.FILTER_ACCEPT
-                        : NodeFilter.FILTER_REJECT;
-                },
-            },
-        );
-        while (walker.nextNode() != null) {
-            this.#addCallback(walker.currentNode);
+    private queueMutations(mutationsList: MutationRecord[]): void {
+        mutationsList.forEach((mutation) => {
+            if (mutation.type === 'attributes') {
+                this.#changeCallback(mutation.target);
+                this.queue({ node: mutation.target, attribute: mutation.attributeName ?? '' });
+                return;
+            }
+            if (mutation.type === 'characterData') {
+                // the text extractor rescans the whole run of text around the edited node
+                this.#changeCallback(mutation.target);
+                this.queue({ node: mutation.target });
+                return;
+            }
+            /*
+                only the top-level node(s) will be in this list
+                so we need to scan the node and its children
+             */
+            mutation.addedNodes.forEach((n) => this.queue({ node: n }));
+            mutation.removedNodes.forEach((n) => this.#removeCallback(n));
+        });
+    }
+
+    private queue(task: ScanTask): void {
+        this.#pending.push(task);
+        this.schedule();
+    }
+
+    private schedule(): void {
+        if (this.#idleHandle === undefined && this.#pending.length > 0) {
+            this.#idleHandle = requestIdleCallback((deadline) => this.processPending(deadline), {
+                timeout: IDLE_TIMEOUT,
+            });
         }
     }
+
+    /**
+     * Scans queued nodes until the idle period ends, then waits for the next one.
+     * At least one task runs per slice, so a busy page still makes progress.
+     *
+     * @param {IdleDeadline} deadline
+     * @returns {void}
+     * @private
+     */
+    private processPending(deadline: IdleDeadline): void {
+        this.#idleHandle = undefined;
+        // a node is often queued again by a later mutation; scan it once per slice
+        const scanned = new Set<Node>();
+        do {
+            const task = this.#pending.shift() as ScanTask;
+            // nodes removed before their turn have nothing left to show
+            if (!task.node.isConnected) {
+                continue;
+            }
+            if (task.attribute !== undefined) {
+                this.scanAttribute(task.node, task.attribute);
+            } else if (!scanned.has(task.node)) {
+                scanned.add(task.node);
+                this.scanDom(task.node);
+            }
+        } while (this.#pending.length > 0 && deadline.timeRemaining() > 0);
+        this.schedule();
+    }
+
+    /**
+     * Runs every extractor on a DOM node and its children.
+     * For each trust URI found, the callback is invoked
+     *
+     * @param {Node} rootNode
+     * @returns {void}
+     * @private
+     */
+    private scanDom(rootNode: Node): void {
+        for (const extractor of this.#extractors) {
+            extractor.extract(rootNode).forEach((match) => this.#addCallback(match));
+        }
+        // extractors do not enter shadow roots; roots attached before their host was added are found here
+        findShadowRoots(rootNode).forEach((shadowRoot) => this.addShadowRoot(shadowRoot));
+    }
+
+    /**
+     * Re-runs the extractors that read a changed attribute, on the changed element only.
+     *
+     * @param {Node} element
+     * @param {string} attribute
+     * @returns {void}
+     * @private
+     */
+    private scanAttribute(element: Node, attribute: string): void {
+        for (const extractor of this.#extractors) {
+            if (extractor.attributes.includes(attribute)) {
+                extractor
+                    .extract(element)
+                    .filter((match) => match.node === element)
+                    .forEach((match) => this.#addCallback(match));
+            }
+        }
+    }
+}
+
+/**
+ * Returns the open shadow roots of a node and its descendants, not including nested shadow roots.
+ */
+function findShadowRoots(root: Node): ShadowRoot[] {
+    const elements = root instanceof Element ? [root] : [];
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT);
+    while (walker.nextNode() != null) {
+        elements.push(walker.currentNode as Element);
+    }
+    // the extension's own popups hold trust URIs of their own
+    return elements
+        .filter((element) => !EXTENSION_HOSTS.includes(element.getAttribute('trust') ?? ''))
+        .map((element) => element.shadowRoot)
+        .filter((shadowRoot): shadowRoot is ShadowRoot => !!shadowRoot);
 }
 
 export default DomScanner;
@@ -0,0 +1,193 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { debug } from './xpoc-lib';
+
+import { validatePlatformRule, type PlatformRule } from './platforms';
+
+/*
+    The extension settings, kept in chrome.storage.local under their own keys. Every setting has a
+    default and a validator: stored values that are missing or invalid fall back to the default,
+    so older versions' settings and hand-edited storage never break a lookup.
+*/
+
+export type ValidatorMode = 'local' | 'remote';
+
+/**
+ * How trust URI icons are shown next to the page text: full size, text size, or not at all
+ * (results are then only shown on the toolbar button). Icons of page metadata are not affected.
+ */
+export type IconStyle = 'standard' | 'compact' | 'hidden';
+
+export type Settings = {
+    /** find and verify the trust URIs of every page */
+    autoVerifyTrustUris: boolean;
+    /** only verify a trust URI once it scrolls near the viewport */
+    verifyWhenVisible: boolean;
+    /** scan same-origin frames like the page */
+    scanFrames: boolean;
+    iconStyle: IconStyle;
+    /** fetch the other organization's trust.txt to confirm organization relations */
+    verifyReciprocal: boolean;
+    /** check the detached signature of trust.txt files */
+    verifySignature: boolean;
+    /** download timeout in milliseconds */
+    fetchTimeout: number;
+    validatorMode: ValidatorMode;
+    /** the REST validator used in remote mode */
+    validatorEndpoint: string;
+    /** the longest time a downloaded trust.txt file is reused without asking its server, in minutes */
+    cacheMaxAge: number;
+    /** the number of lookups kept in the history */
+    historyLimit: number;
+    /** user-defined platforms, for social accounts the built-in platforms do not know */
+    platformRules: PlatformRule[];
+};
+
+export type SettingsErrors = Partial<Record<keyof Settings, Error>>;
+
+type SettingSchema<T> = {
+    default: T;
+    /** returns an Error describing why the value is invalid, or undefined */
+    validate: (value: unknown) => Error | undefined;
+};
+
+export const SETTINGS_SCHEMA: { [K in keyof Settings]: SettingSchema<Settings[K]> } = {
+    autoVerifyTrustUris: booleanSetting(true),
+    verifyWhenVisible: booleanSetting(true),
+    scanFrames: booleanSetting(true),
+    iconStyle: choiceSetting<IconStyle>('standard', ['standard', 'compact', 'hidden']),
+    verifyReciprocal: booleanSetting(true),
+    verifySignature: booleanSetting(true),
+    fetchTimeout: integerSetting(5000, 500, 60000, 'The fetch timeout', 'ms'),
+    validatorMode: choiceSetting<ValidatorMode>('local', ['local', 'remote']),
+    validatorEndpoint: {
+        default: '',
+        validate: (value) => (typeof value !== 'string' || (value !== '' && !isHttpsUrl(value))
+            ? new Error(`The validator endpoint must be an https URL, found "${value}"`)
+            : undefined),
+    },
+    cacheMaxAge: integerSetting(24 * 60, 0, 30 * 24 * 60, 'The cache retention', 'minutes'),
+    historyLimit: integerSetting(1000, 1, 100000, 'The history limit', 'lookups'),
+    platformRules: {
+        default: [],
+        validate: (value) => Array.isArray(value)
+            ? value.map(validateRule).find((error) => error)
+            : new Error('The platforms must be a list'),
+    },
+};
+
+export const SETTINGS_KEYS = Object.keys(SETTINGS_SCHEMA) as Array<keyof Settings>;
+
+export const DEFAULT_SETTINGS = Object.fromEntries(
+    SETTINGS_KEYS.map((key) => [key, SETTINGS_SCHEMA[key].default]),
+) as Settings;
+
+function booleanSetting(defaultValue: boolean): SettingSchema<boolean> {
+    return {
+        default: defaultValue,
+        validate: (value) => (typeof value === 'boolean' ? undefined : new Error(`Expected true or false, found "${value}"`)),
+    };
+}
+
+function integerSetting(defaultValue: number, min: number, max: number, name: string, unit: string): SettingSchema<number> {
+    return {
+        default: defaultValue,
+        validate: (value) => (Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+            ? undefined
+            : new Error(`${name} must be a whole number between ${min} and ${max} ${unit}`)),
+    };
+}
+
+function choiceSetting<T extends string>(defaultValue: T, choices: T[]): SettingSchema<T> {
+    return {
+        default: defaultValue,
+        validate: (value) => (choices.includes(value as T)
+            ? undefined
+            : new Error(`Expected one of ${choices.join(', ')}, found "${value}"`)),
+    };
+}
+
+function validateRule(rule: unknown): Error | undefined {
+    return rule && typeof rule === 'object' ? validatePlatformRule(rule as PlatformRule) : new Error('A platform must be an object');
+}
+
+function isHttpsUrl(value: string): boolean {
+    try {
+        return new URL(value).protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Validates settings, each on its own and together.
+ * @param settings - The settings to check.
+ * @returns The errors by setting; empty when every setting is valid.
+ */
+export function validateSettings(settings: Settings): SettingsErrors {
+    const errors: SettingsErrors = {};
+    for (const key of SETTINGS_KEYS) {
+        const error = SETTINGS_SCHEMA[key].validate(settings[key]);
+        error && (errors[key] = error);
+    }
+    if (settings.validatorMode === 'remote' && !settings.validatorEndpoint && !errors.validatorEndpoint) {
+        errors.validatorEndpoint = new Error('The remote validator needs an endpoint');
+    }
+    return errors;
+}
+
+/**
+ * Reads settings from stored values: missing and invalid values are replaced by their defaults.
+ * @param stored - The values read from storage.
+ * @returns The settings.
+ */
+export function normalizeSettings(stored: { [key: string]: unknown }): Settings {
+    const settings = Object.fromEntries(
+        SETTINGS_KEYS.map((key) => [
+            key,
+            stored[key] !== undefined && !SETTINGS_SCHEMA[key].validate(stored[key]) ? stored[key] : SETTINGS_SCHEMA[key].default,
+        ]),
+    ) as Settings;
+    // one invalid platform does not discard the others
+    if (Array.isArray(stored.platformRules)) {
+        settings.platformRules = stored.platformRules.filter((rule) => !validateRule(rule));
+    }
+    // a remote validator without an endpoint cannot be used
+    if (settings.validatorMode === 'remote' && !settings.validatorEndpoint) {
+        settings.validatorMode = 'local';
+    }
+    return settings;
+}
+
+/**
+ * Returns the REST validator endpoint to use, or an empty string to validate locally.
+ * @param settings - The settings.
+ */
+export function getValidatorEndpoint(settings: Settings): string {
+    return settings.validatorMode === 'remote' ? settings.validatorEndpoint : '';
+}
+
+/**
+ * Reads the settings from the extension storage.
+ * @returns A promise that resolves to the settings.
+ */
+export async function getSettings(): Promise<Settings> {
+    const stored = await chrome.storage.local.get(SETTINGS_KEYS);
+    return normalizeSettings(stored ?? {});
+}
+
+/**
+ * Validates and stores changed settings; nothing is stored if any setting is invalid.
+ * @param changes - The settings to change.
+ * @returns A promise that resolves to the errors by setting, or to undefined once the settings are stored.
+ */
+export async function saveSettings(changes: Partial<Settings>): Promise<SettingsErrors | undefined> {
+    const settings = { ...(await getSettings()), ...changes };
+    const errors = validateSettings(settings);
+    if (Object.keys(errors).length > 0) {
+        if (debug) { console.log('Validator - saveSettings: invalid settings', errors); }
+        return errors;
+    }
+    await chrome.storage.local.set(changes);
+    return undefined;
+}
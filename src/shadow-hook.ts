@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { SHADOW_ROOT_ATTACHED } from './scanner';
+
+/*
+    Firefox-only content script APIs: the page's own objects, and a way to hand it a function
+*/
+declare const exportFunction: (<T extends Function>(fn: T, target: object) => T) | undefined;
+type FirefoxWindow = Window & { wrappedJSObject?: typeof globalThis };
+
+/*
+    Runs in the page's own JavaScript world, before the page's scripts: calls the page makes
+    to attachShadow() are not visible from the content script's isolated world.
+    The content script listens for the event and scans the new shadow root.
+    Firefox before 128 ignores "world": "MAIN" and runs this script in the isolated world; the
+    page's prototype is then patched through wrappedJSObject, with the hook exported into the page.
+*/
+(function hookAttachShadow() {
+    const page = (window as FirefoxWindow).wrappedJSObject;
+    const isolated = !!page && typeof exportFunction === 'function';
+    const prototype = isolated ? page.Element.prototype : Element.prototype;
+    const attachShadow = prototype.attachShadow;
+    const hook = function (this: Element, init: ShadowRootInit): ShadowRoot {
+        const shadowRoot = attachShadow.call(this, init);
+        if (init.mode === 'open') {
+            // custom elements attach their shadow root before they are inserted in the document
+            queueMicrotask(() =>
+                this.dispatchEvent(new CustomEvent(SHADOW_ROOT_ATTACHED, { bubbles: true, composed: true })),
+            );
+        }
+        return shadowRoot;
+    };
+    prototype.attachShadow = isolated ? exportFunction(hook, page) : hook;
+})();
@@ -0,0 +1,282 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { getHost, isSameOrganization } from './domain';
+import { verifyRelationship } from './reciprocal';
+import { type ParsedTrustTxt, type TrustTxtFile } from './trust-txt';
+
+/*
+    A publisher can sign its trust.txt file with a detached JWS (RFC 7515, appendix F) served
+    next to the file at `<trust.txt URL>.sig`:
+
+        base64url({"alg":"EdDSA","kid":"<key id>"}) + '..' + base64url(Ed25519 signature)
+
+    The signed payload is the exact bytes of the trust.txt file. The public keys are published
+    by the associations the publisher belongs to, at `https://<association>/.well-known/trust-keys.json`:
+
+        { "keys": [{ "kty": "OKP", "crv": "Ed25519", "x": "...", "kid": "...", "domains": ["publisher.example"] }] }
+
+    A hijacked web host can change the trust.txt file, but it cannot sign it with a key the association
+    published for the publisher. Since the altered file can name any association in belongto=, keys are
+    only taken from associations whose own trust.txt lists the publisher in member=.
+*/
+
+/**
+ * `unverifiable` when the file is signed but the signature cannot be checked: no confirmed association
+ * publishes its key, or the browser cannot check Ed25519 signatures (WebCrypto Ed25519 arrived in
+ * Chrome 137 and Firefox 129).
+ */
+export type SignatureStatus = 'signed' | 'unsigned' | 'unverifiable' | 'bad-signature';
+
+export type SignatureCheck = {
+    status: SignatureStatus;
+    message: string;
+    /** the association that published the key that verified the signature */
+    signer?: string;
+    keyId?: string;
+    /** for an unsigned file: the association whose key verified the file when it was last signed */
+    previousSigner?: string;
+};
+
+/**
+ * Downloads the text at a URL; an Error means the file is not available.
+ */
+export type SignatureFetch = (url: string) => Promise<string | Error>;
+
+export const SIGNATURE_SUFFIX = '.sig';
+export const KEYS_PATH = '/.well-known/trust-keys.json';
+
+type SigningKey = {
+    /** the association that published the key */
+    publisher: string;
+    kid?: string;
+    x: string;
+};
+
+/**
+ * Verifies the detached signature of a trust.txt file.
+ * @param domain - The domain the trust.txt file belongs to.
+ * @param content - The trust.txt file exactly as it was downloaded.
+ * @param file - The parsed file, whose belongto= entries name the associations publishing keys.
+ * @param source - The URL that served the file; the signature is at the same URL plus `.sig`.
+ * @param fetch - Downloads the signature and the key sets.
+ * @param download - Downloads and parses the trust.txt file of an association, to confirm the membership.
+ * @returns The signature check.
+ */
+export async function verifyTrustTxtSignature(
+    domain: string,
+    content: Uint8Array,
+    file: TrustTxtFile,
+    source: string,
+    fetch: SignatureFetch,
+    download: (trustUri: string) => Promise<ParsedTrustTxt | Error>,
+): Promise<SignatureCheck> {
+    const keys = await getSigningKeys(domain, file.belongto, fetch, download);
+    const jws = await fetch(`${source}${SIGNATURE_SUFFIX}`);
+
+    if (jws instanceof Error) {
+        // an association expects this publisher to sign: a missing signature is a downgrade
+        return keys.length > 0
+            ? {
+                  status: 'bad-signature',
+                  message: `The trust.txt file is not signed, but ${keys[0].publisher} publishes a signing key for ${domain}`,
+              }
+            : { status: 'unsigned', message: 'The trust.txt file is not signed' };
+    }
+
+    const parsed = parseDetachedJws(jws);
+    if (parsed instanceof Error) {
+        return { status: 'bad-signature', message: parsed.message };
+    }
+    const candidates = keys.filter((key) => !parsed.kid || key.kid === parsed.kid);
+    // a signature nothing can check is not the same as no signature
+    if (candidates.length === 0) {
+        return {
+            status: 'unverifiable',
+            message: `The trust.txt file is signed, but none of its confirmed associations publishes ${
+                parsed.kid ? `key "${parsed.kid}"` : 'a key'
+            } for ${domain}`,
+        };
+    }
+
+    // the bytes on the wire: decoding drops a byte order mark, and the signer may have used CRLF line ends
+    const signingInput = new TextEncoder().encode(`${parsed.header}.${toBase64Url(content)}`);
+    for (const key of candidates) {
+        const verified = await verifyEd25519(key.x, parsed.signature, signingInput);
+        if (verified === 'unsupported') {
+            return {
+                status: 'unverifiable',
+                message: 'The trust.txt file is signed, but this browser cannot verify Ed25519 signatures',
+            };
+        }
+        if (verified) {
+            return {
+                status: 'signed',
+                message: `The trust.txt file is signed with a key published by ${key.publisher}`,
+                signer: key.publisher,
+                keyId: key.kid,
+            };
+        }
+    }
+    return {
+        status: 'bad-signature',
+        message: 'The trust.txt file does not match its signature; it may have been altered',
+    };
+}
+
+/**
+ * Flags an unsigned file of a domain whose file was signed before.
+ * The keys are found through the file's own belongto= entries, so whoever can alter the file can
+ * also remove them: the file then reads as unsigned rather than as a bad signature. Remembering
+ * who signed the file last catches that downgrade.
+ * @param check - The signature check of the file.
+ * @param previousSigner - The association whose key verified the file last time, if it was signed.
+ * @returns The check, flagged if the file is no longer signed.
+ */
+export function checkSignatureDowngrade(check: SignatureCheck, previousSigner?: string): SignatureCheck {
+    if (check.status !== 'unsigned' || !previousSigner) {
+        return check;
+    }
+    return {
+        ...check,
+        message: `The trust.txt file is not signed, but it was signed with a key published by ${previousSigner} before; its belongto= entries may have been removed`,
+        previousSigner,
+    };
+}
+
+/**
+ * Returns the level of a signature check for icons and colors.
+ * An unsigned file is valid: signatures are optional, and a file without belongto= entries names no
+ * key publisher. Only a file known to have been signed before (see checkSignatureDowngrade) is flagged.
+ * @param check - The signature check, if one was made.
+ * @returns 'invalid' for a bad signature, 'warning' for a signature that could not be checked or
+ * that was removed, otherwise 'valid'.
+ */
+export function getSignatureLevel(check?: SignatureCheck): 'valid' | 'warning' | 'invalid' {
+    switch (check?.status) {
+        case 'bad-signature':
+            return 'invalid';
+        case 'unverifiable':
+            return 'warning';
+        case 'unsigned':
+            return check.previousSigner ? 'warning' : 'valid';
+        default:
+            return 'valid';
+    }
+}
+
+/**
+ * Parses a detached JWS: a header, an empty payload and a signature.
+ * @returns The encoded header, its key id and the signature bytes, or an Error.
+ */
+function parseDetachedJws(
+    jws: string,
+): { header: string; kid?: string; signature: Uint8Array } | Error {
+    const parts = jws.trim().split('.');
+    if (parts.length !== 3 || parts[1] !== '') {
+        return new Error('The trust.txt signature is not a detached JWS');
+    }
+    let header: { alg?: unknown; kid?: unknown };
+    try {
+        header = JSON.parse(new TextDecoder().decode(fromBase64Url(parts[0])));
+    } catch {
+        return new Error('The trust.txt signature has an invalid header');
+    }
+    if (header?.alg !== 'EdDSA') {
+        return new Error(`The trust.txt signature algorithm "${String(header?.alg)}" is not supported`);
+    }
+    let signature: Uint8Array;
+    try {
+        signature = fromBase64Url(parts[2]);
+    } catch {
+        return new Error('The trust.txt signature is not valid base64url');
+    }
+    return {
+        header: parts[0],
+        kid: typeof header.kid === 'string' ? header.kid : undefined,
+        signature,
+    };
+}
+
+/**
+ * Collects the Ed25519 keys that the given associations publish for a domain.
+ * Associations that do not list the domain as a member, or whose key set cannot be downloaded, are skipped.
+ */
+async function getSigningKeys(
+    domain: string,
+    associations: string[],
+    fetch: SignatureFetch,
+    download: (trustUri: string) => Promise<ParsedTrustTxt | Error>,
+): Promise<SigningKey[]> {
+    const keys: SigningKey[] = [];
+    for (const association of associations) {
+        const host = getHost(association);
+        if (!host) {
+            continue;
+        }
+        const membership = await verifyRelationship(domain, 'belongto', host, download);
+        if (membership.state !== 'confirmed') {
+            continue;
+        }
+        const text = await fetch(`https://${host}${KEYS_PATH}`);
+        if (text instanceof Error) {
+            continue;
+        }
+        let keySet: { keys?: unknown };
+        try {
+            keySet = JSON.parse(text);
+        } catch {
+            continue;
+        }
+        for (const jwk of Array.isArray(keySet?.keys) ? keySet.keys : []) {
+            const domains: unknown[] = Array.isArray(jwk?.domains) ? jwk.domains : [];
+            if (
+                jwk?.kty === 'OKP' &&
+                jwk?.crv === 'Ed25519' &&
+                typeof jwk?.x === 'string' &&
+                domains.some((value) => typeof value === 'string' && isSameOrganization(value, domain))
+            ) {
+                keys.push({
+                    publisher: host,
+                    kid: typeof jwk.kid === 'string' ? jwk.kid : undefined,
+                    x: jwk.x,
+                });
+            }
+        }
+    }
+    return keys;
+}
+
+/**
+ * Verifies an Ed25519 signature.
+ * @returns Whether the signature is valid, or 'unsupported' when the browser has no Ed25519 support.
+ */
+async function verifyEd25519(x: string, signature: Uint8Array, data: Uint8Array): Promise<boolean | 'unsupported'> {
+    try {
+        const key = await crypto.subtle.importKey(
+            'jwk',
+            { kty: 'OKP', crv: 'Ed25519', x },
+            { name: 'Ed25519' },
+            false,
+            ['verify'],
+        );
+        return await crypto.subtle.verify({ name: 'Ed25519' }, key, signature, data);
+    } catch (error) {
+        // an unusable key verifies nothing; an unknown algorithm says nothing about the file
+        return (error as Error)?.name === 'NotSupportedError' ? 'unsupported' : false;
+    }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+    if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+        throw new Error('Invalid base64url');
+    }
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,15 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+/**
+ * Performs an HTTP request on behalf of xpoc-lib.
+ * Implementations must follow redirects and report the final URL in `Response.url`,
+ * and must honor `init.signal` so requests can time out.
+ * The extension uses the browser's `fetch`; tests pass a transport that talks to a local server.
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * The default transport: the global `fetch`.
+ */
+export const fetchTransport: Transport = (url, init) => fetch(url, init);
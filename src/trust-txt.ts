@@ -0,0 +1,291 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+/**
+ * A trust.txt file.
+ */
+export type TrustTxtFile = {
+    member: string[];
+    belongto: string[];
+    control: string[];
+    controlledby: string[];
+    social: string[];
+    vendor: string[];
+    customer: string[];
+    disclosure: string[];
+    contact: string[];
+    datatrainingallowed: boolean;
+};
+
+/**
+ * The list-valued variables of a trust.txt file.
+ */
+export type TrustTxtListVariable = Exclude<
+    keyof TrustTxtFile,
+    'datatrainingallowed'
+>;
+
+export type TrustTxtDiagnosticSeverity = 'error' | 'warning';
+
+export type TrustTxtDiagnosticCode =
+    | 'malformed-line'
+    | 'unknown-variable'
+    | 'empty-value'
+    | 'invalid-url'
+    | 'non-https-url'
+    | 'invalid-contact'
+    | 'invalid-datatrainingallowed'
+    | 'duplicate-datatrainingallowed'
+    | 'conflicting-datatrainingallowed';
+
+/**
+ * A problem found on a single line of a trust.txt file.
+ */
+export type TrustTxtDiagnostic = {
+    /** 1-based line number in the source file */
+    line: number;
+    severity: TrustTxtDiagnosticSeverity;
+    code: TrustTxtDiagnosticCode;
+    message: string;
+};
+
+/**
+ * The result of parsing a trust.txt file: the entries that were accepted,
+ * plus a diagnostic for every line that was rejected or is suspicious.
+ */
+export type ParsedTrustTxt = {
+    file: TrustTxtFile;
+    diagnostics: TrustTxtDiagnostic[];
+};
+
+/*
+    Variables whose values are organization URLs, per the draft
+*/
+const URL_VARIABLES: TrustTxtListVariable[] = [
+    'member',
+    'belongto',
+    'control',
+    'controlledby',
+    'social',
+    'vendor',
+    'customer',
+    'disclosure',
+];
+
+type Reporter = (
+    line: number,
+    severity: TrustTxtDiagnosticSeverity,
+    code: TrustTxtDiagnosticCode,
+    message: string,
+) => void;
+
+/** A contact= value that is a bare email address */
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// social accounts that are not web URLs: @user@instance, acct:user@instance and at://handle-or-did
+const SOCIAL_HANDLE_PATTERN = /^(@[^\s@/]+@[^\s@/]+\.[^\s@/]+|acct:[^\s@/]+@[^\s@/]+\.[^\s@/]+|at:\/\/[^\s/]+)$/i;
+/** A contact= value that is a phone number */
+export const PHONE_PATTERN = /^\+?[0-9 ()./-]{6,}$/;
+
+/**
+ * Returns an empty trust.txt file.
+ */
+export function emptyTrustTxtFile(): TrustTxtFile {
+    return {
+        member: [],
+        belongto: [],
+        control: [],
+        controlledby: [],
+        social: [],
+        vendor: [],
+        customer: [],
+        disclosure: [],
+        contact: [],
+        datatrainingallowed: false,
+    };
+}
+
+/**
+ * Parses the content of a trust.txt file.
+ * Lines are `variable=value` pairs; only the first `=` separates the two, so values may contain `=`.
+ * Full-line comments start with `#`, and a `#` preceded by whitespace starts a trailing comment.
+ * Invalid entries are dropped and reported as diagnostics instead of being silently ignored.
+ * @param trustTxtContent - The raw text of the trust.txt file.
+ * @returns The parsed file and its diagnostics.
+ */
+export function parseTrustTxt(trustTxtContent: string): ParsedTrustTxt {
+    const file = emptyTrustTxtFile();
+    const diagnostics: TrustTxtDiagnostic[] = [];
+    let dataTrainingLine = 0;
+    let dataTrainingValue: boolean | undefined;
+
+    const report: Reporter = (line, severity, code, message) =>
+        diagnostics.push({ line, severity, code, message });
+
+    const lines = trustTxtContent.replace(/^\uFEFF/, '').split(/\r?\n/);
+    lines.forEach((line, index) => {
+        const lineNumber = index + 1;
+        const cleanedLine = stripComment(line).trim();
+
+        // Skip empty lines and comments
+        if (!cleanedLine) {
+            return;
+        }
+
+        const separator = cleanedLine.indexOf('=');
+        if (separator <= 0) {
+            report(
+                lineNumber,
+                'error',
+                'malformed-line',
+                `Expected "variable=value" but found "${cleanedLine}"`,
+            );
+            return;
+        }
+
+        const variable = cleanedLine.slice(0, separator).trim().toLowerCase();
+        const value = cleanedLine.slice(separator + 1).trim();
+
+        if (!isKnownVariable(variable)) {
+            report(
+                lineNumber,
+                'warning',
+                'unknown-variable',
+                `Unknown variable "${variable}" is ignored`,
+            );
+            return;
+        }
+
+        if (!value) {
+            report(
+                lineNumber,
+                'error',
+                'empty-value',
+                `Variable "${variable}" has no value`,
+            );
+            return;
+        }
+
+        if (variable === 'datatrainingallowed') {
+            const normalized = value.toLowerCase();
+            if (normalized !== 'yes' && normalized !== 'no') {
+                report(
+                    lineNumber,
+                    'error',
+                    'invalid-datatrainingallowed',
+                    `datatrainingallowed must be "yes" or "no", found "${value}"`,
+                );
+                return;
+            }
+            const allowed = normalized === 'yes';
+            if (dataTrainingValue === undefined) {
+                dataTrainingValue = allowed;
+                dataTrainingLine = lineNumber;
+            } else if (dataTrainingValue === allowed) {
+                report(
+                    lineNumber,
+                    'warning',
+                    'duplicate-datatrainingallowed',
+                    `datatrainingallowed is already declared on line ${dataTrainingLine}`,
+                );
+            } else {
+                // conflicting declarations resolve to the most restrictive value
+                dataTrainingValue = false;
+                report(
+                    lineNumber,
+                    'error',
+                    'conflicting-datatrainingallowed',
+                    `datatrainingallowed conflicts with the value on line ${dataTrainingLine}; treating it as "no"`,
+                );
+            }
+            return;
+        }
+
+        if (variable === 'contact') {
+            checkContact(value, lineNumber, report) && file.contact.push(value);
+            return;
+        }
+
+        if (variable === 'social' && SOCIAL_HANDLE_PATTERN.test(value)) {
+            file.social.push(value);
+            return;
+        }
+
+        checkUrl(variable, value, lineNumber, report) && file[variable].push(value);
+    });
+
+    file.datatrainingallowed = dataTrainingValue ?? false;
+    return { file, diagnostics };
+}
+
+/**
+ * Removes a comment from a line. A `#` only starts a comment at the beginning of the line
+ * or after whitespace, so URL fragments are preserved.
+ */
+function stripComment(line: string): string {
+    const match = /(^|\s)#/.exec(line);
+    return match ? line.slice(0, match.index) : line;
+}
+
+function isKnownVariable(
+    variable: string,
+): variable is keyof TrustTxtFile {
+    return (
+        variable === 'contact' ||
+        variable === 'datatrainingallowed' ||
+        (URL_VARIABLES as string[]).includes(variable)
+    );
+}
+
+/**
+ * Validates a URL-valued entry; returns true if the entry should be kept.
+ * Non-https URLs are kept but reported.
+ */
+function checkUrl(
+    variable: string,
+    value: string,
+    line: number,
+    report: Reporter,
+): boolean {
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        report(line, 'error', 'invalid-url', `${variable} value "${value}" is not a valid URL`);
+        return false;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        report(line, 'error', 'invalid-url', `${variable} value "${value}" is not a web URL`);
+        return false;
+    }
+    if (url.protocol === 'http:') {
+        report(line, 'warning', 'non-https-url', `${variable} value "${value}" does not use https`);
+    }
+    return true;
+}
+
+/**
+ * Validates a contact entry: an email address, a phone number, a mailto:/tel: URI or a web URL.
+ * Returns true if the entry should be kept.
+ */
+function checkContact(
+    value: string,
+    line: number,
+    report: Reporter,
+): boolean {
+    if (EMAIL_PATTERN.test(value) || PHONE_PATTERN.test(value)) {
+        return true;
+    }
+    if (/^(mailto|tel):/i.test(value)) {
+        return true;
+    }
+    if (/^https?:\/\//i.test(value)) {
+        return checkUrl('contact', value, line, report);
+    }
+    report(
+        line,
+        'warning',
+        'invalid-contact',
+        `contact value "${value}" is not an email address, phone number or URL`,
+    );
+    return false;
+}
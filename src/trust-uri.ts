@@ -0,0 +1,79 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { type ReciprocalRelation } from './reciprocal';
+
+/**
+ * The trust.txt entries a trust URI path can select.
+ */
+export type TrustUriSelector = 'social' | ReciprocalRelation;
+
+export const TRUST_URI_SELECTORS: TrustUriSelector[] = [
+    'social',
+    'member',
+    'belongto',
+    'control',
+    'controlledby',
+    'vendor',
+    'customer',
+];
+
+/**
+ * A parsed trust URI.
+ *
+ * The trust.txt file always lives at the root of the host: the path never changes which file is fetched.
+ * Instead, a path names the kind of trust.txt entry the page claims to be listed under,
+ * e.g. `trust://example.com/social!` is only satisfied by a `social=` entry and
+ * `trust://example.com/member!` only by a `member=` entry.
+ * Without a path, any entry can match.
+ */
+export type TrustUri = {
+    host: string;
+    selector?: TrustUriSelector;
+};
+
+const TRUST_URI_PATTERN = /^trust:\/\/([a-z0-9.-]+)(\/[^!\s]*)?!?$/i;
+
+/**
+ * Parses a trust URI.
+ * @param uri - The trust URI, e.g. `trust://example.com!` or `trust://example.com/social!`.
+ * @returns The parsed trust URI, or an Error describing why it is malformed.
+ */
+export function parseTrustUri(uri: string): TrustUri | Error {
+    const match = TRUST_URI_PATTERN.exec(uri.trim());
+    if (!match) {
+        return new Error(`Invalid trust URI: ${uri}`);
+    }
+    const host = match[1].toLowerCase().replace(/\.$/, '');
+    if (!host || host.startsWith('.') || host.includes('..')) {
+        return new Error(`Invalid trust URI host: ${uri}`);
+    }
+
+    // a trailing slash is the same as no path
+    const path = (match[2] ?? '').replace(/\/$/, '');
+    if (!path) {
+        return { host };
+    }
+    const selector = path.slice(1).toLowerCase();
+    if (!(TRUST_URI_SELECTORS as string[]).includes(selector)) {
+        return new Error(
+            `Invalid trust URI path "${path}": expected one of /${TRUST_URI_SELECTORS.join(', /')}`,
+        );
+    }
+    return { host, selector: selector as TrustUriSelector };
+}
+
+/**
+ * Returns the URL of the trust.txt file's well-known location for a parsed trust URI.
+ */
+export function getTrustTxtUrl(trustUri: TrustUri): string {
+    return `https://${trustUri.host}/.well-known/trust.txt`;
+}
+
+/**
+ * Describes the entries a trust URI selects, for popup text.
+ * @returns e.g. "social entries", or "entries" when there is no selector.
+ */
+export function describeSelector(selector?: TrustUriSelector): string {
+    return selector ? `${selector} entries` : 'entries';
+}
@@ -0,0 +1,140 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+import { debug } from './xpoc-lib';
+
+import { getHost, isSameOrganization } from './domain';
+import {
+    checkCounterpart,
+    RECIPROCAL_RELATIONS,
+    type ReciprocalRelation,
+    type RelationshipCheck,
+} from './reciprocal';
+import { type ParsedTrustTxt, type TrustTxtFile } from './trust-txt';
+
+/**
+ * One row of a trust.txt validation: the outcome for one referenced domain.
+ * This is the shape returned by the journallist.net validator REST endpoint.
+ */
+export type TrustValidationEntry = {
+    /** 'found', 'not found', 'error', or 'skipped' past the limit of checked organizations */
+    status: string;
+    domain: string;
+    message: string;
+};
+
+export type TrustValidationOptions = {
+    /** maximum number of referenced organizations checked; the others are reported as skipped (default 50) */
+    maxDomains?: number;
+    /** maximum number of trust.txt files downloaded at the same time (default 4) */
+    concurrency?: number;
+};
+
+const DEFAULT_MAX_DOMAINS = 50;
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Validates a trust.txt file locally: every organization it references must declare the
+ * counterpart entry (e.g. a `member` must declare `belongto`) in its own trust.txt file.
+ * Produces one row per referenced domain, in the order the domains first appear in the file.
+ * @param domain - The domain that published the trust.txt file.
+ * @param file - The parsed trust.txt file.
+ * @param download - Downloads and parses the trust.txt file for a trust URI.
+ * @param relations - The relations to validate (default: all of them).
+ * @param options - How many organizations are checked, and how many at a time.
+ * @returns A promise that resolves to the validation rows.
+ */
+export async function validateTrustTxt(
+    domain: string,
+    file: TrustTxtFile,
+    download: (trustUri: string) => Promise<ParsedTrustTxt | Error>,
+    relations: ReciprocalRelation[] = RECIPROCAL_RELATIONS,
+    options: TrustValidationOptions = {},
+): Promise<TrustValidationEntry[]> {
+    const maxDomains = options.maxDomains ?? DEFAULT_MAX_DOMAINS;
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+
+    // group the declared relations by referenced domain
+    const references = new Map<string, ReciprocalRelation[]>();
+    for (const relation of relations) {
+        for (const entry of file[relation]) {
+            const referenced = getHost(entry);
+            if (!referenced || isSameOrganization(referenced, domain)) {
+                continue;
+            }
+            const declared = references.get(referenced) ?? [];
+            declared.includes(relation) || declared.push(relation);
+            references.set(referenced, declared);
+        }
+    }
+
+    if (references.size === 0) {
+        return [
+            {
+                status: 'not found',
+                domain,
+                message: `The trust.txt file of ${domain} does not reference any organization`,
+            },
+        ];
+    }
+
+    // each referenced trust.txt file is downloaded once, a few at a time; each download may try
+    // several discovery URLs, so a file listing hundreds of organizations is only partly checked
+    const entries = Array.from(references.entries());
+    const skipped = entries.slice(maxDomains).map(([referenced]) => ({
+        status: 'skipped',
+        domain: referenced,
+        message: `Not checked: the trust.txt file of ${domain} references more than ${maxDomains} organizations`,
+    }));
+    const checked = await mapWithLimit(
+        entries.slice(0, maxDomains),
+        concurrency,
+        async ([referenced, declared]): Promise<TrustValidationEntry> => {
+            const parsed = await download(`trust://${referenced}!`);
+            if (parsed instanceof Error) {
+                return {
+                    status: 'error',
+                    domain: referenced,
+                    message: `Could not fetch the trust.txt file of ${referenced}: ${parsed.message}`,
+                };
+            }
+            const checks = declared.map((relation) =>
+                checkCounterpart(domain, relation, referenced, parsed.file),
+            );
+            if (debug) { console.log('Validator - validateTrustTxt:', referenced, checks); }
+            return toValidationEntry(referenced, checks);
+        },
+    );
+    return [...checked, ...skipped];
+}
+
+/**
+ * Maps items with an async callback, running at most `limit` callbacks at the same time.
+ * @returns The results, in the order of the items.
+ */
+async function mapWithLimit<T, R>(items: T[], limit: number, callback: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = [];
+    let next = 0;
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await callback(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+/**
+ * Combines the relationship checks for one referenced domain into a validation row.
+ */
+function toValidationEntry(
+    domain: string,
+    checks: RelationshipCheck[],
+): TrustValidationEntry {
+    const confirmed = checks.every((check) => check.state === 'confirmed');
+    return {
+        status: confirmed ? 'found' : 'not found',
+        domain,
+        message: checks.map((check) => check.message).join('; '),
+    };
+}
@@ -0,0 +1,238 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { getRegistrableDomain } from './domain';
+import { getRelationshipLevel } from './reciprocal';
+import { getSignatureLevel } from './signature';
+import { parseTrustUri } from './trust-uri';
+import { type TrustValidationEntry } from './validator';
+import { type lookupTrustUriResult } from './xpoc-lib';
+
+export type ResultLevel = 'valid' | 'warning' | 'invalid';
+
+/**
+ * The level of a page: `unknown` when no trust URI was checked.
+ */
+export type VerdictLevel = ResultLevel | 'unknown';
+
+export type TrustUriVerdict = {
+    trustUri: string;
+    level: ResultLevel;
+    /** the organization named by the trust URI, if it is valid */
+    publisher?: string;
+    summary: string;
+};
+
+export type PageConflictKind = 'mixed-results' | 'multiple-publishers';
+
+export type PageConflict = {
+    kind: PageConflictKind;
+    message: string;
+    trustUris: string[];
+};
+
+/**
+ * The combined verdict for every trust URI checked on a page.
+ */
+export type PageVerdict = {
+    level: VerdictLevel;
+    summary: string;
+    entries: TrustUriVerdict[];
+    conflicts: PageConflict[];
+};
+
+const LEVEL_ORDER: ResultLevel[] = ['valid', 'warning', 'invalid'];
+
+/**
+ * Returns the level of one lookup result, from its matches, relationship and signature.
+ * @param result - The lookup result.
+ * @returns The level.
+ */
+export function getResultLevel(result: lookupTrustUriResult): ResultLevel {
+    // a trust.txt file that does not match its signature may have been altered
+    const signatureLevel = result.type !== 'error' ? getSignatureLevel(result.signature) : 'valid';
+    switch (result.type) {
+        case 'account':
+            return worstLevel([getRelationshipLevel(result.relationship), signatureLevel]);
+        case 'multiple':
+            return worstLevel([getListLevel(result.list), signatureLevel]);
+        default:
+            // "notFound" in manifest is also an error
+            return 'invalid';
+    }
+}
+
+/**
+ * Returns the level of the rows of a same-domain validation: valid if every organization was found,
+ * invalid if none was, otherwise a warning.
+ * @param list - The validation rows.
+ * @returns The level.
+ */
+export function getListLevel(list: TrustValidationEntry[]): ResultLevel {
+    const found = list.some((item) => item.status === 'found');
+    const failed = list.some((item) => item.status === 'not found' || item.status === 'error');
+    return !found ? 'invalid' : failed ? 'warning' : 'valid';
+}
+
+/**
+ * Merges the results of every trust URI checked on a page into one verdict.
+ * A page whose trust URIs disagree, with some verified and others failing, or that names
+ * more than one publisher, gets a warning even if each URI on its own is fine.
+ * @param results - The lookup results of the page, by trust URI.
+ * @returns The page verdict with a per-URI breakdown.
+ */
+export function aggregateResults(results: { [trustUri: string]: lookupTrustUriResult }): PageVerdict {
+    const entries: TrustUriVerdict[] = Object.keys(results).map((trustUri) => ({
+        trustUri,
+        level: getResultLevel(results[trustUri]),
+        publisher: getPublisher(trustUri),
+        summary: summarizeResult(results[trustUri]),
+    }));
+    if (entries.length === 0) {
+        return { level: 'unknown', summary: 'No trust URI checked on this page', entries, conflicts: [] };
+    }
+
+    const conflicts: PageConflict[] = [];
+    const verified = entries.filter((entry) => entry.level === 'valid');
+    const failing = entries.filter((entry) => entry.level === 'invalid');
+    if (verified.length > 0 && failing.length > 0) {
+        conflicts.push({
+            kind: 'mixed-results',
+            message: `${verified.length} trust URI${verified.length === 1 ? '' : 's'} verified but ${failing.length} failed`,
+            trustUris: failing.map((entry) => entry.trustUri),
+        });
+    }
+    // a URI that could not be checked names no publisher worth comparing
+    const publishers = new Map<string, string[]>();
+    for (const entry of entries) {
+        if (entry.publisher && results[entry.trustUri].type !== 'error') {
+            publishers.set(entry.publisher, [...(publishers.get(entry.publisher) ?? []), entry.trustUri]);
+        }
+    }
+    if (publishers.size > 1) {
+        conflicts.push({
+            kind: 'multiple-publishers',
+            message: `This page names ${publishers.size} different publishers: ${[...publishers.keys()].join(', ')}`,
+            trustUris: [...publishers.values()].flat(),
+        });
+    }
+
+    const worst = worstLevel(entries.map((entry) => entry.level));
+    // conflicting URIs are suspicious, but the verified ones still count
+    const level: ResultLevel = conflicts.length > 0 && verified.length > 0 ? 'warning' : worst;
+    return { level, summary: summarizeVerdict(level, entries.length, conflicts.length), entries, conflicts };
+}
+
+const BADGE_SYMBOLS: Record<ResultLevel, string> = {
+    valid: '\u2713',
+    warning: '!',
+    invalid: '\u2717',
+};
+
+// Chrome shows about four characters of badge text
+const BADGE_MAX_LENGTH = 4;
+
+const LEVEL_NAMES: Record<ResultLevel, string> = {
+    valid: 'verified',
+    warning: 'with warnings',
+    invalid: 'failed',
+};
+
+/**
+ * Returns the toolbar badge of a page, short enough to be shown in full:
+ * the count and symbol of its level when every trust URI agrees, e.g. "3✓",
+ * otherwise the verified URIs out of all of them, e.g. "3/4", or "!" if that does not fit.
+ * The per-level breakdown is in the tooltip, see getActionTitle.
+ * @param verdict - The page verdict.
+ * @returns The badge text; empty when no trust URI was checked.
+ */
+export function getBadgeText(verdict: PageVerdict): string {
+    const counts = countLevels(verdict);
+    const total = verdict.entries.length;
+    if (total === 0) {
+        return '';
+    }
+    const level = LEVEL_ORDER.find((level) => counts[level] === total);
+    const text = level ? `${total}${BADGE_SYMBOLS[level]}` : `${counts.valid}/${total}`;
+    return text.length <= BADGE_MAX_LENGTH ? text : BADGE_SYMBOLS[level ?? 'warning'];
+}
+
+/**
+ * Describes a page verdict for the toolbar tooltip: its summary, the number of trust URIs
+ * of each level, its conflicts, and one line per trust URI.
+ * @param verdict - The page verdict.
+ * @returns The tooltip text.
+ */
+export function getActionTitle(verdict: PageVerdict): string {
+    const counts = countLevels(verdict);
+    const breakdown = LEVEL_ORDER.filter((level) => counts[level] > 0)
+        .map((level) => `${counts[level]} ${LEVEL_NAMES[level]}`)
+        .join(', ');
+    return [
+        verdict.summary,
+        breakdown,
+        ...verdict.conflicts.map((conflict) => conflict.message),
+        ...verdict.entries.map((entry) => `${entry.trustUri}: ${entry.summary}`),
+    ].join('\n');
+}
+
+/**
+ * Counts the trust URIs of a page by level.
+ */
+function countLevels(verdict: PageVerdict): Record<ResultLevel, number> {
+    const counts: Record<ResultLevel, number> = { valid: 0, warning: 0, invalid: 0 };
+    verdict.entries.forEach((entry) => counts[entry.level]++);
+    return counts;
+}
+
+/**
+ * Returns the most severe of some levels; valid when there are none.
+ */
+function worstLevel(levels: ResultLevel[]): ResultLevel {
+    return levels.reduce<ResultLevel>(
+        (worst, level) => (LEVEL_ORDER.indexOf(level) > LEVEL_ORDER.indexOf(worst) ? level : worst),
+        'valid',
+    );
+}
+
+function getPublisher(trustUri: string): string | undefined {
+    const parsed = parseTrustUri(trustUri);
+    return parsed instanceof Error ? undefined : getRegistrableDomain(parsed.host) ?? parsed.host;
+}
+
+/**
+ * Describes one lookup result in a line.
+ */
+function summarizeResult(result: lookupTrustUriResult): string {
+    switch (result.type) {
+        case 'account': {
+            const account = result.account.platform
+                ? `${result.account.platform} account ${result.account.account}`
+                : `Account ${result.account.account}`;
+            return `${account} is listed by ${result.name}`;
+        }
+        case 'multiple': {
+            const found = result.list.filter((item) => item.status === 'found').length;
+            return `${found} of ${result.list.length} related organizations confirmed`;
+        }
+        case 'notFound':
+            return 'This page is not listed in the trust.txt file';
+        case 'error':
+            return result.message;
+    }
+}
+
+function summarizeVerdict(level: ResultLevel, count: number, conflicts: number): string {
+    const uris = `${count} trust URI${count === 1 ? '' : 's'}`;
+    if (conflicts > 0) {
+        return `The ${uris} on this page disagree`;
+    }
+    switch (level) {
+        case 'valid':
+            return count === 1 ? 'The trust URI on this page is verified' : `All ${uris} on this page are verified`;
+        case 'warning':
+            return `The ${uris} on this page verified with warnings`;
+        case 'invalid':
+            return count === 1 ? 'The trust URI on this page failed verification' : `The ${uris} on this page failed verification`;
+    }
+}
@@ -0,0 +1,172 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { debug } from './xpoc-lib';
+
+/*
+    Trust URIs are verified once they come near the viewport, so a long feed does not start
+    a lookup for every post at once. Nodes that are on screen but hidden by their style
+    (`visibility: hidden`, `opacity: 0`, ...) wait until a class or style change reveals them;
+    changes inside the shadow roots that hold them are watched too. Only changes to a hidden node or
+    one of its ancestors can reveal it, and they are checked at most once per frame, so pages that
+    animate their styles do not pay for a trust URI that stays hidden.
+*/
+const ROOT_MARGIN = '200px';
+const STYLE_ATTRIBUTES = ['class', 'style', 'hidden'];
+
+export class VisibilityQueue {
+    #callbacks = new WeakMap<Element, Array<() => void>>();
+    #queued = new WeakMap<Node, Set<string>>();
+    #hidden = new Set<Element>();
+    #observedRoots = new WeakSet<Node>();
+    #changedNodes = new Set<Node>();
+    #frame: number | undefined;
+    #intersectionObserver: IntersectionObserver;
+    #styleObserver: MutationObserver;
+
+    constructor() {
+        this.#intersectionObserver = new IntersectionObserver(
+            (entries) => entries.forEach((entry) => entry.isIntersecting && this.reveal(entry.target)),
+            { rootMargin: ROOT_MARGIN },
+        );
+        this.#styleObserver = new MutationObserver((mutations) => {
+            mutations.forEach((mutation) => this.#changedNodes.add(mutation.target));
+            if (this.#frame === undefined) {
+                this.#frame = requestAnimationFrame(() => this.revealChanged());
+            }
+        });
+    }
+
+    /**
+     * Runs a callback once a node is near the viewport and visible.
+     * @param node - The text node or element holding a trust URI.
+     * @param key - Identifies the work for the node, e.g. the trust URI; a key already queued is ignored.
+     * @param callback - Called once, when the node becomes visible.
+     */
+    whenVisible(node: Node, key: string, callback: () => void): void {
+        const element = node instanceof Element ? node : node.parentElement;
+        const keys = this.#queued.get(node) ?? new Set<string>();
+        if (!element || keys.has(key)) {
+            return;
+        }
+        keys.add(key);
+        this.#queued.set(node, keys);
+        const callbacks = this.#callbacks.get(element);
+        if (callbacks) {
+            callbacks.push(callback);
+            return;
+        }
+        this.#callbacks.set(element, [callback]);
+        this.#intersectionObserver.observe(element);
+    }
+
+    /**
+     * Forgets the keys queued for a node, so they can be queued again once its content changes.
+     * Callbacks already waiting still run; they should check that their node is unchanged.
+     * @param node - The text node or element.
+     */
+    forget(node: Node): void {
+        this.#queued.delete(node);
+    }
+
+    /**
+     * Runs the callbacks of an element that is near the viewport, unless its style hides it.
+     */
+    private reveal(element: Element): void {
+        // the page removed the element before it was shown
+        if (!element.isConnected) {
+            this.release(element);
+            return;
+        }
+        if (!isStyleVisible(element)) {
+            if (debug) { console.log('Validator - VisibilityQueue: hidden:', element); }
+            this.#hidden.add(element);
+            this.observeStyles(element);
+            return;
+        }
+        const callbacks = this.#callbacks.get(element) ?? [];
+        this.release(element);
+        callbacks.forEach((callback) => callback());
+    }
+
+    /**
+     * Checks again the hidden elements whose style may have changed since the last frame.
+     */
+    private revealChanged(): void {
+        this.#frame = undefined;
+        const changed = this.#changedNodes;
+        this.#changedNodes = new Set<Node>();
+        [...this.#hidden]
+            .filter((element) => getComposedAncestors(element).some((node) => changed.has(node)))
+            .forEach((element) => this.reveal(element));
+    }
+
+    /**
+     * Watches style changes in the document and in every shadow root between it and a hidden element.
+     */
+    private observeStyles(element: Element): void {
+        const roots: Node[] = [document.documentElement];
+        for (let root = element.getRootNode(); root instanceof ShadowRoot; root = root.host.getRootNode()) {
+            roots.push(root);
+        }
+        roots
+            .filter((root) => !this.#observedRoots.has(root))
+            .forEach((root) => {
+                this.#observedRoots.add(root);
+                this.#styleObserver.observe(root, {
+                    attributes: true,
+                    subtree: true,
+                    attributeFilter: STYLE_ATTRIBUTES,
+                });
+            });
+    }
+
+    private release(element: Element): void {
+        this.#callbacks.delete(element);
+        this.#intersectionObserver.unobserve(element);
+        this.#hidden.delete(element);
+        if (this.#hidden.size === 0) {
+            this.#styleObserver.disconnect();
+            this.#observedRoots = new WeakSet<Node>();
+            this.#changedNodes.clear();
+            this.#frame !== undefined && cancelAnimationFrame(this.#frame);
+            this.#frame = undefined;
+        }
+    }
+}
+
+/**
+ * Returns an element and its ancestors, crossing from shadow roots to their hosts.
+ */
+function getComposedAncestors(element: Element): Node[] {
+    const ancestors: Node[] = [];
+    for (let node: Node | null = element; node; node = node instanceof ShadowRoot ? node.host : node.parentNode) {
+        ancestors.push(node);
+    }
+    return ancestors;
+}
+
+/**
+ * Determines if an element is visually rendered in the document.
+ * Checks if the element is part of the document and if its computed style
+ * makes it visually perceivable (not `display: none`, `visibility: hidden`, or `opacity: 0`).
+ * Also checks if the element has non-zero dimensions.
+ * @param {Element} element - The DOM element to check.
+ * @returns {boolean} - Returns `true` if the element is visually rendered, otherwise `false`.
+ */
+export function isStyleVisible(element: Element): boolean {
+    // isConnected also holds for elements in the shadow root of a connected host
+    if (!element.isConnected) {
+        return false;
+    }
+    const style = window.getComputedStyle(element);
+    const rect = element.getBoundingClientRect();
+
+    return !(
+        style.display === 'none' ||
+        style.visibility === 'hidden' ||
+        parseFloat(style.opacity) === 0 ||
+        rect.width === 0 ||
+        rect.height === 0
+    );
+}
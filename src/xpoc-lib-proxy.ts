@@ -1,12 +1,28 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { type lookupTrustUriResult } from './xpoc-lib';
+import {
+    type lookupTrustUriOptions,
+    type lookupTrustUriResult,
+    type resolveTrustGraphOptions,
+    type resolveTrustGraphResult,
+} from './xpoc-lib';
 
 type lookupTrustUriMessage = {
     type: 'lookupTrustUri';
     url: string;
     tabUrl: string;
+    options: lookupTrustUriOptions;
+};
+
+type clearTrustTxtCacheMessage = {
+    type: 'clearTrustTxtCache';
+};
+
+type resolveTrustGraphMessage = {
+    type: 'resolveTrustGraph';
+    url: string;
+    options: resolveTrustGraphOptions;
 };
 
 /*
@@ -41,15 +57,45 @@ async function offscreenMessage<T, R>(message: T): Promise<R> {
  * Looks up the trust.txt URI for a given tab URL and trust.txt URL.
  * @param tabUrl The URL of the tab.
  * @param trustUrl The URL of the trust.txt.
+ * @param options Lookup options.
  * @returns A promise that resolves to the result of the lookup.
  */
 export async function lookupTrustUri(
     tabUrl: string,
     trustUrl: string,
+    options: lookupTrustUriOptions = {},
 ): Promise<lookupTrustUriResult> {
     return await offscreenMessage<lookupTrustUriMessage, lookupTrustUriResult>({
         type: 'lookupTrustUri',
         url: trustUrl,
         tabUrl: tabUrl,
+        options,
+    });
+}
+
+/**
+ * Resolves the trust relationship graph for a given trust URI.
+ * @param trustUri The trust URI of the root organization.
+ * @param options Traversal limits, and the download timeout and cache age of lookups.
+ * @returns A promise that resolves to the graph result.
+ */
+export async function resolveTrustGraph(
+    trustUri: string,
+    options: resolveTrustGraphOptions = {},
+): Promise<resolveTrustGraphResult> {
+    return await offscreenMessage<resolveTrustGraphMessage, resolveTrustGraphResult>({
+        type: 'resolveTrustGraph',
+        url: trustUri,
+        options,
+    });
+}
+
+/**
+ * Clears the trust.txt cache held by the offscreen document.
+ * @returns A promise that resolves when the cache is cleared.
+ */
+export async function clearTrustTxtCache(): Promise<void> {
+    await offscreenMessage<clearTrustTxtCacheMessage, void>({
+        type: 'clearTrustTxtCache',
     });
 }
@@ -7,11 +7,88 @@ import {
     Platforms,
     type Account
 } from 'xpoc-framework';
+import {
+    parseTrustTxt,
+    type ParsedTrustTxt,
+    type TrustTxtDiagnostic,
+    type TrustTxtFile,
+} from './trust-txt';
+
+import {
+    RECIPROCAL_RELATIONS,
+    verifyRelationship,
+    type ReciprocalRelation,
+    type RelationshipCheck,
+} from './reciprocal';
+import { cachedFetch, clearCache, type CacheEntry } from './cache';
+import { checkRedirect, discoverTrustTxt } from './discovery';
+import { getHost, isSameOrganization } from './domain';
+import { fetchTransport, type Transport } from './transport';
+import {
+    describeSelector,
+    getTrustTxtUrl,
+    parseTrustUri,
+    type TrustUriSelector,
+} from './trust-uri';
+import { validateTrustTxt, type TrustValidationEntry } from './validator';
+import {
+    createPlatformRegistry,
+    matchAccountUrl,
+    parseWebUrl,
+    resolveAccountUrl,
+    type CanonicalAccount,
+    type PlatformMatcher,
+    type PlatformRule,
+} from './platforms';
+import { verifyTrustTxtSignature, type SignatureCheck } from './signature';
+import { fediverseMatcher } from './fediverse';
+import { blueskyMatcher } from './bluesky';
+import {
+    resolveGraph,
+    type TrustGraph,
+    type TrustGraphOptions,
+} from './graph';
+
+export {
+    type TrustTxtFile,
+    type TrustTxtDiagnostic,
+    type ParsedTrustTxt,
+} from './trust-txt';
+export {
+    type TrustGraph,
+    type TrustGraphNode,
+    type TrustGraphEdge,
+    type TrustGraphOptions,
+    type TrustRelation,
+} from './graph';
+export { type TrustValidationEntry } from './validator';
+export { type Transport } from './transport';
+export { type TrustUriSelector } from './trust-uri';
+export { type PlatformRule } from './platforms';
+export { type SignatureCheck, type SignatureStatus } from './signature';
+export {
+    type RelationshipCheck,
+    type RelationshipState,
+    type ReciprocalRelation,
+} from './reciprocal';
 
 const DOWNLOAD_TIMEOUT = Number.parseInt(
     process.env.DOWNLOAD_TIMEOUT ?? ('5000' as string),
 );
 
+// e.g. https://journallist.net/wp-json/trust-txt/v1/validate
+const VALIDATOR_ENDPOINT = process.env.VALIDATOR_ENDPOINT ?? '';
+
+/*
+    How downloads are performed for one lookup
+*/
+type FetchContext = {
+    transport: Transport;
+    timeout: number;
+    /** the longest time a cached trust.txt file is reused without revalidation (ms) */
+    cacheMaxAge?: number;
+};
+
 /**
  * Retrieves the base URL from a given URL by removing any query parameters and trailing slashes.
  * @param url - The input URL.
@@ -31,34 +108,40 @@ export function getBaseURL(url: string) {
     return baseURL;
 }
 
-function getUrlFromUri(uri: string): string {
-   return uri
-        // replace the trust:// prefix with https://
-        .replace(/^trust:\/\//, 'https://')
-        // remove trailing !
-        .replace(/!$/, '')
-        // remove trailing slash, if present
-        .replace(/\/$/, '') +
-    // append the file path
-    '/.well-known/trust.txt';
-}
-
-function getDomainFromUrl (url: string): string {
-    return getBaseURL(url).replace('www.','')
-}
+/*
+    The platforms supported by xpoc-framework
+*/
+const xpocPlatformMatcher: PlatformMatcher = {
+    name: 'xpoc-framework',
+    canonicalize: (url) => {
+        // handles such as @user@instance are left to the other matchers
+        if (!parseWebUrl(url)) {
+            return undefined;
+        }
+        const platform = Platforms.isSupportedAccountUrl(url)
+            ? Platforms.getPlatformFromAccountUrl(url)
+            : undefined;
+        if (!platform || !platform.isValidAccountUrl(url)) {
+            return undefined;
+        }
+        const account = platform.canonicalizeAccountUrl(url).account;
+        return { platform: platform.DisplayName, account: account.toLowerCase() };
+    },
+};
 
 /**
  * Fetches data from the specified URL with a timeout.
  * @param url - The URL to fetch data from.
  * @param options - The options for the fetch request.
- * @param timeout - The timeout duration in milliseconds.
+ * @param context - The transport and timeout to use.
  * @returns A promise that resolves to the fetched data or an error.
  */
 async function fetchWithTimeout(
     url: string,
-    options: RequestInit = {},
-    timeout = DOWNLOAD_TIMEOUT,
+    options: RequestInit,
+    context: FetchContext,
 ): Promise<Response | Error> {
+    const timeout = context.timeout;
     if (debug) { console.log('Validator - fetchWithTimeout:', url, options, timeout); }
     // add controller to options so we can abort the fetch on timeout
     const controller = new AbortController();
@@ -68,14 +151,14 @@ async function fetchWithTimeout(
         ...options,
         signal,
         method: options.body == null ? 'GET' : 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...options.headers },
     };
 
     const timeoutId = setTimeout(() => {
         controller.abort();
     }, timeout);
 
-    const response: Response | Error = await fetch(url, { ...options, signal })
+    const response: Response | Error = await context.transport(url, { ...options, signal })
         .catch((error) => {
             if (debug) { console.log('Validator - fetchWithTimeout: fetch error', error); }
             // if the fetch was aborted, throw a timeout error instead
@@ -93,28 +176,110 @@ async function fetchWithTimeout(
         return response;
     }
 
-    if (!response.ok) {
+    // 304 Not Modified answers a conditional request from the cache
+    if (!response.ok && response.status !== 304) {
         return new Error(`HTTP error: ${response.status}`);
     }
 
     return response
 }
 
-async function fetchText (
-        url: string,
-        options: RequestInit = {},
-        timeout = DOWNLOAD_TIMEOUT,
-    ): Promise<string | Error> {
-        const responseOrError = await fetchWithTimeout(url, options, timeout);
-        if (responseOrError instanceof Error) {
-            return responseOrError;
+/**
+ * Fetches the text at the specified URL through the HTTP cache.
+ * @param url - The URL to fetch data from.
+ * @param context - The transport and timeout to use.
+ * @returns A promise that resolves to the cache entry holding the text, or an error.
+ */
+async function fetchText(
+    url: string,
+    context: FetchContext,
+): Promise<CacheEntry | Error> {
+    return await cachedFetch(url, async (url, headers) => {
+        const response = await fetchWithTimeout(url, { headers }, context);
+        if (response instanceof Error) {
+            return response;
+        }
+        const redirectError = checkRedirect(url, response.url);
+        if (redirectError) {
+            return redirectError;
+        }
+        // servers often answer unknown paths with an HTML page instead of a 404
+        if (response.status !== 304 && response.headers.get('Content-Type')?.includes('text/html')) {
+            return new Error(`HTTP error: ${url} returned an HTML page`);
         }
-        const response = responseOrError as Response;
+        return response;
+    }, context.cacheMaxAge);
+}
 
-        return await response.text().catch((error: Error) => {
-            return new Error(`text parse error: ${error}`);
-        });
+/**
+ * Fetches a document used to resolve a social account, such as a WebFinger or DID document.
+ * Unlike trust.txt files, these are not cached and may redirect to another host.
+ * @param url - The URL to fetch data from.
+ * @param context - The transport and timeout to use.
+ * @returns A promise that resolves to the text, or an error.
+ */
+async function fetchResolverText(
+    url: string,
+    context: FetchContext,
+): Promise<string | Error> {
+    const response = await fetchWithTimeout(url, { headers: { Accept: 'application/json' } }, context);
+    if (response instanceof Error) {
+        return response;
     }
+    return await response.text().catch((error: Error) => new Error(`HTTP error: ${error}`));
+}
+
+/**
+ * Clears the trust.txt cache.
+ * @returns A promise that resolves when the cache is cleared.
+ */
+export async function clearTrustTxtCache(): Promise<void> {
+    if (debug) { console.log('Validator - clearTrustTxtCache'); }
+    await clearCache();
+}
+
+/**
+ * Validates the trust.txt file of a page's domain with a remote REST validator.
+ * @param endpoint - The validator endpoint URL.
+ * @param tabUrl - The URL of the page.
+ * @param context - The transport and timeout to use.
+ * @returns A promise that resolves to the validation rows or an Error.
+ */
+async function validateRemotely(
+    endpoint: string,
+    tabUrl: string,
+    context: FetchContext,
+): Promise<TrustValidationEntry[] | Error> {
+    const response = await fetchWithTimeout(
+        endpoint,
+        { body: JSON.stringify({ url: tabUrl }) },
+        context,
+    );
+    if (response instanceof Error) {
+        return response;
+    }
+    const data: unknown = await response.json().catch((error: Error) => {
+        return new Error(`JSON parse error: ${error}`);
+    });
+    if (data instanceof Error) {
+        return data;
+    }
+    if (!Array.isArray(data)) {
+        return new Error('Unexpected validator response');
+    }
+    return data.filter(isValidationRow).map((row) => ({
+        status: String(row.status ?? ''),
+        domain: String(row.domain ?? ''),
+        message: String(row.message ?? ''),
+    }));
+}
+
+/**
+ * Whether a value of the remote validator's response is a row object; its fields are read as strings.
+ */
+function isValidationRow(value: unknown): value is { status?: unknown; domain?: unknown; message?: unknown } {
+    return typeof value === 'object' && value !== null;
+}
 
 export type lookupTrustUriResult =
     | {
@@ -123,19 +288,85 @@ export type lookupTrustUriResult =
           baseurl: string;
           version: string;
           account: Account;
+          /** the URL that served the trust.txt file */
+          source?: string;
+          /** the kind of entry selected by the trust URI path, if any */
+          selector?: TrustUriSelector;
+          diagnostics?: TrustTxtDiagnostic[];
+          /** set when the match is an organization relation checked from both sides */
+          relationship?: RelationshipCheck;
+          /** the resolved trust.txt file, for the publisher profile */
+          file?: TrustTxtFile;
+          /** when the trust.txt file was fetched (ms since epoch) */
+          fetchedAt?: number;
+          /** the exact text of the downloaded trust.txt file */
+          content?: string;
+          /** set when the detached signature of the trust.txt file was checked */
+          signature?: SignatureCheck;
       }
     | {
-        type: 'multiple';
-        list:
-            [{
-                status: string,
-                domain: string,
-                message: string
-            }]
-    }
+          type: 'multiple';
+          list: TrustValidationEntry[];
+          /** the URL that served the trust.txt file */
+          source?: string;
+          /** the resolved trust.txt file, for the publisher profile */
+          file?: TrustTxtFile;
+          /** when the trust.txt file was fetched (ms since epoch) */
+          fetchedAt?: number;
+          /** the exact text of the downloaded trust.txt file */
+          content?: string;
+          /** set when the detached signature of the trust.txt file was checked */
+          signature?: SignatureCheck;
+      }
     | {
           type: 'notFound';
           baseurl: string;
+          /** the URL that served the trust.txt file */
+          source?: string;
+          /** the kind of entry selected by the trust URI path, if any */
+          selector?: TrustUriSelector;
+          diagnostics?: TrustTxtDiagnostic[];
+          /** the resolved trust.txt file, for the publisher profile */
+          file?: TrustTxtFile;
+          /** when the trust.txt file was fetched (ms since epoch) */
+          fetchedAt?: number;
+          /** the exact text of the downloaded trust.txt file */
+          content?: string;
+          /** set when the detached signature of the trust.txt file was checked */
+          signature?: SignatureCheck;
+      }
+    | {
+          type: 'error';
+          baseurl: string;
+          message: string;
+          /** set when the trust URI itself is malformed, so nothing was fetched */
+          invalidUri?: boolean;
+      };
+
+export type lookupTrustUriOptions = {
+    /** fetch the other organization's trust.txt to confirm organization relations */
+    verifyReciprocal?: boolean;
+    /**
+     * REST endpoint used to validate a trust.txt file on its own domain;
+     * when empty, the validation is done locally
+     */
+    validatorEndpoint?: string;
+    /** download timeout in milliseconds */
+    timeout?: number;
+    /** the longest time a cached trust.txt file is reused without revalidation, in milliseconds */
+    cacheMaxAge?: number;
+    /** user-defined platforms, for social accounts the built-in platforms do not know */
+    platformRules?: PlatformRule[];
+    /** check the detached signature of the trust.txt file against the keys of its associations */
+    verifySignature?: boolean;
+};
+
+export type resolveTrustGraphOptions = TrustGraphOptions & Pick<lookupTrustUriOptions, 'timeout' | 'cacheMaxAge'>;
+
+export type resolveTrustGraphResult =
+    | {
+          type: 'graph';
+          graph: TrustGraph;
       }
     | {
           type: 'error';
@@ -144,250 +375,235 @@ export type lookupTrustUriResult =
       };
 
 /**
- * A trust.txt file.
+ * A downloaded and parsed trust.txt file.
  */
-export type TrustTxtFile = {
-    member: string[];
-    belongto: string[];
-    control: string[];
-    controlledby: string[];
-    social: string[];
-    vendor: string[];
-    customer: string[];
-    disclosure: string[];
-    contact: string[];
-    datatrainingallowed: boolean;
+export type DownloadedTrustTxt = ParsedTrustTxt & {
+    /** the URL that actually served the file */
+    source: string;
+    /** when the file was downloaded or last revalidated (ms since epoch) */
+    fetchedAt: number;
+    /** the text of the file, as shown in the history */
+    content: string;
+    /** the file exactly as it was downloaded, for signature verification */
+    bytes: Uint8Array;
 };
 
 /**
  * Downloads the trust.txt file for the given trust URI.
  * @param trustUri The trust URI.
- * @returns A promise that resolves to the downloaded trust.txt file or an Error object if the URI is invalid.
+ * @param context The transport and timeout to use.
+ * @returns A promise that resolves to the parsed trust.txt file and its diagnostics, or an Error object if the URI is invalid.
  */
 async function downloadTrustTxt(
     trustUri: string,
-): Promise<TrustTxtFile | Error> {
-    if (!trustUri.startsWith('trust://')) {
-        return new Error(`Invalid trust URI: ${trustUri}`);
+    context: FetchContext,
+): Promise<DownloadedTrustTxt | Error> {
+    const parsedUri = parseTrustUri(trustUri);
+    if (parsedUri instanceof Error) {
+        return parsedUri;
     }
 
-    const trustUrl = getUrlFromUri(trustUri);
-    const trustTxtContent = await fetchText(trustUrl);
+    const trustTxtContent = await discoverTrustTxt(parsedUri.host, (url) => fetchText(url, context));
     if (trustTxtContent instanceof Error) {
         return trustTxtContent;
     }
-    const trustTxtFile = parseTrustTxt(trustTxtContent);
-    return trustTxtFile;
+    const parsed = parseTrustTxt(trustTxtContent.body);
+    if (debug && parsed.diagnostics.length > 0) { console.log('Validator - downloadTrustTxt: diagnostics', parsed.diagnostics); }
+    return {
+        ...parsed,
+        source: trustTxtContent.responseUrl || trustTxtContent.url,
+        fetchedAt: trustTxtContent.fetchedAt,
+        content: trustTxtContent.body,
+        bytes: trustTxtContent.bytes,
+    };
 }
 
-function parseTrustTxt(trustTxtContent: string): TrustTxtFile {
-    const trustTxtFile: TrustTxtFile = {
-        member: [],
-        belongto: [],
-        control: [],
-        controlledby: [],
-        social: [],
-        vendor: [],
-        customer: [],
-        disclosure: [],
-        contact: [],
-        datatrainingallowed: false
-    }
-
-    const lines = trustTxtContent.split('\n');
-    for (const line of lines) {
-        const cleanedLine = line.trim();
-
-        // Skip empty lines and comments
-        if (!cleanedLine || cleanedLine.startsWith('#')) {
-            continue;
-        }
-
-        const [variable, value] = cleanedLine.split('=');
-
-        if (!variable || !value) {
-            continue;
-        }
-
-        const cleanedVariable = variable.trim().toLowerCase();
-        const trimmedValue = value.trim();
-
-        switch (cleanedVariable) {
-            case 'member':
-                trustTxtFile.member.push(trimmedValue);
-                break;
-            case 'belongto':
-                trustTxtFile.belongto.push(trimmedValue);
-                break;
-            case 'control':
-                trustTxtFile.control.push(trimmedValue);
-                break;
-            case 'controlledby':
-                trustTxtFile.controlledby.push(trimmedValue);
-                break;
-            case 'social':
-                trustTxtFile.social.push(trimmedValue);
-                break;
-            case 'vendor':
-                trustTxtFile.vendor.push(trimmedValue);
-                break;
-            case 'customer':
-                trustTxtFile.customer.push(trimmedValue);
-                break;
-            case 'disclosure':
-                trustTxtFile.disclosure.push(trimmedValue);
-                break;
-            case 'contact':
-                trustTxtFile.contact.push(trimmedValue);
-                break;
-            case 'datatrainingallowed':
-                trustTxtFile.datatrainingallowed = trimmedValue.toLowerCase() === 'yes';
-                break;
-            default:
-                console.warn(`Unknown variable: ${cleanedVariable}`);
-        }
+/**
+ * Resolves the graph of organizations related to the given trust URI through
+ * member, belongto, control and controlledby entries.
+ * @param trustUri The trust URI of the root organization.
+ * @param options Traversal limits, and the download timeout and cache age of lookups.
+ * @param transport Performs the HTTP requests; defaults to the global fetch.
+ * @returns A promise that resolves to the graph, or an error result if the trust URI is invalid.
+ */
+export async function resolveTrustGraph(
+    trustUri: string,
+    options: resolveTrustGraphOptions = {},
+    transport: Transport = fetchTransport,
+): Promise<resolveTrustGraphResult> {
+    if (debug) { console.log('Validator - resolveTrustGraph:', trustUri, options); }
+    const context: FetchContext = {
+        transport,
+        timeout: options.timeout ?? DOWNLOAD_TIMEOUT,
+        cacheMaxAge: options.cacheMaxAge,
+    };
+    const graph = await resolveGraph(
+        trustUri,
+        (uri) => downloadTrustTxt(uri, context),
+        options,
+    );
+    if (graph instanceof Error) {
+        return { type: 'error', baseurl: trustUri, message: graph.message };
     }
-
-    return trustTxtFile;
+    return { type: 'graph', graph };
 }
 
 /**
  * Looks up the trust URI for the given tab URL and trust URI.
  * @param tabUrl The URL of the tab.
  * @param trustUri The Trust URI that references the domain for the trust.txt file.
+ * @param options Lookup options.
+ * @param transport Performs the HTTP requests; defaults to the global fetch.
  * @returns A promise that resolves to the lookup result.
  */
 export async function lookupTrustUri(
     tabUrl: string,
     trustUri: string,
+    options: lookupTrustUriOptions = {},
+    transport: Transport = fetchTransport,
 ): Promise<lookupTrustUriResult> {
     if (debug) { console.log('Validator - lookupTrustUri:', tabUrl, trustUri); }
-    const trustTxtFile = await downloadTrustTxt(trustUri);
+    const context: FetchContext = {
+        transport,
+        timeout: options.timeout ?? DOWNLOAD_TIMEOUT,
+        cacheMaxAge: options.cacheMaxAge,
+    };
+    const download = (uri: string) => downloadTrustTxt(uri, context);
 
-    if (trustTxtFile instanceof Error) {
-        if (debug) { console.log('Validator - lookupTrustUri: Error fetching trust.txt file:', trustTxtFile.message); }
+    const parsedUri = parseTrustUri(trustUri);
+    if (parsedUri instanceof Error) {
+        if (debug) { console.log('Validator - lookupTrustUri: invalid trust URI:', parsedUri.message); }
+        return { type: 'error', baseurl: trustUri, message: parsedUri.message, invalidUri: true };
+    }
+    // the path of a trust URI selects the kind of entry that must match
+    const selector = parsedUri.selector;
+    const trustUrl = getTrustTxtUrl(parsedUri);
+
+    const parsed = await download(trustUri);
+
+    if (parsed instanceof Error) {
+        if (debug) { console.log('Validator - lookupTrustUri: Error fetching trust.txt file:', parsed.message); }
         return {
             type: 'error',
             baseurl: trustUri,
-            message: `Error fetching trust.txt file: ${trustTxtFile.message}`,
+            message: `Error fetching trust.txt file: ${parsed.message}`,
         };
     }
-    // check if the trustUri domain and the tabUrl domain match
-    const tabDomain = new URL (tabUrl).hostname.replace('www.','');
-    const trustDomain = new URL (getUrlFromUri(trustUri)).hostname;
+    const { file: trustTxtFile, diagnostics, source, fetchedAt, content } = parsed;
+    // check if the trustUri domain and the tabUrl domain belong to the same organization
+    const tabDomain = getHost(tabUrl) as string;
+    const trustDomain = getHost(parsedUri.host) as string;
+    const signature = options.verifySignature
+        ? await verifyTrustTxtSignature(
+              trustDomain,
+              parsed.bytes,
+              trustTxtFile,
+              source,
+              async (url) => {
+                  const entry = await fetchText(url, context);
+                  return entry instanceof Error ? entry : entry.body;
+              },
+              download,
+          )
+        : undefined;
+    if (debug) { console.log('Validator - lookupTrustUri: signature', signature); }
     if (debug) { console.log('Validator - lookupTrustUri: tabDomain', tabDomain, 'trustDomain', trustDomain); }
-    if (tabDomain != trustDomain) {
+    if (!isSameOrganization(tabDomain, trustDomain)) {
         // check each trust.txt file social account to see if it matches the current tab url
         tabUrl = getBaseURL(tabUrl as string);
-        const matchingAccountUrl = trustTxtFile.social?.find((account: string) => {
-            // get the platform object for this account
-            const platform = Platforms.isSupportedAccountUrl(account)
-                ? Platforms.getPlatformFromAccountUrl(account)
-                : undefined;
-            if (debug) { console.log('Validator - lookupTrustUri: platform', platform); }
-            if (platform && platform?.isValidAccountUrl(tabUrl)) {
-                const canonicalizedTabUrl = platform.canonicalizeAccountUrl(tabUrl);
-                const canonicalizedAccountUrl = platform.canonicalizeAccountUrl(account);
-                return (
-                    canonicalizedTabUrl.account.toLowerCase() === canonicalizedAccountUrl.account.toLowerCase()
-                );
-            }
-            // tab url possibly matches this account but is not a supported platform
-            else {
-                if (tabUrl === getBaseURL(account)) {
-                    return true;
-                }
+        const platforms = createPlatformRegistry(
+            [xpocPlatformMatcher, fediverseMatcher, blueskyMatcher],
+            options.platformRules,
+        );
+        const socialEntries = !selector || selector === 'social' ? trustTxtFile.social : [];
+        let matchingAccount: CanonicalAccount | undefined;
+        for (const entry of socialEntries) {
+            matchingAccount = matchAccountUrl(platforms, entry, tabUrl);
+            if (matchingAccount) {
+                break;
             }
-            return false;
-        });
-        
-        if (matchingAccountUrl) {
-            if (debug) { console.log('Validator - lookupTrustUri: Content found in trust.txt file', matchingAccountUrl); }
-            const platform = Platforms.getPlatformFromAccountUrl(matchingAccountUrl)?.DisplayName || '';
-            let account = matchingAccountUrl;
-            if (platform) {
-                account = Platforms.getPlatform(platform).canonicalizeAccountUrl(matchingAccountUrl).account;
+        }
+        // accounts with several identifiers, e.g. a Fediverse handle on the publisher's own domain
+        for (const entry of matchingAccount ? [] : socialEntries) {
+            matchingAccount = await resolveAccountUrl(platforms, entry, tabUrl, (url) => fetchResolverText(url, context));
+            if (matchingAccount) {
+                break;
             }
-            const url = getUrlFromUri(trustUri);
-            const domain = new URL(url).hostname;
+        }
+
+        if (matchingAccount) {
+            if (debug) { console.log('Validator - lookupTrustUri: Content found in trust.txt file', matchingAccount); }
+            const domain = parsedUri.host;
             return {
                 type: 'account',
                 name: domain,
                 baseurl: domain,
                 version: 'trust.txt-draft00',
-                account: {
-                    account: account,
-                    platform: platform
-                }
+                account: matchingAccount,
+                source,
+                selector,
+                diagnostics,
+                file: trustTxtFile,
+                fetchedAt,
+                content,
+                signature
             };
         }
-        // check each trust.txt file member entry to see if it matches the current tab url
-        // const tabDomain = new URL(tabUrl).hostname;
+        // check each trust.txt file organization entry to see if it matches the current tab url
         if (debug) { console.log('Validator - lookupTrustUri: tabDomain', tabDomain); }
-        let memberFound = false;
-        for (let i = 0; i < trustTxtFile.member.length; i++) {
-            if (trustTxtFile.member[i].includes(tabDomain)) {
-                memberFound = true;
-                break;
-            }
-        }
-        if (debug) { console.log('Validator - lookupTrustUri: memberFound', memberFound); }
-        if (memberFound) {
+        // a vendor or customer is not vouched for on its own site; other relations must be selected
+        const relations: ReciprocalRelation[] = selector
+            ? RECIPROCAL_RELATIONS.filter((relation) => selector === relation)
+            : ['member'];
+        const matchingRelation = relations.find((relation) =>
+            trustTxtFile[relation].some((entry) => isSameOrganization(entry, tabDomain)),
+        );
+        if (debug) { console.log('Validator - lookupTrustUri: matchingRelation', matchingRelation); }
+        if (matchingRelation) {
+            const relationship = options.verifyReciprocal
+                ? await verifyRelationship(trustDomain, matchingRelation, tabDomain, download)
+                : undefined;
+            if (debug) { console.log('Validator - lookupTrustUri: relationship', relationship); }
             return {
                 type: 'account',
                 name: tabDomain,
-                baseurl: getUrlFromUri(trustUri),
+                baseurl: trustUrl,
                 version: 'trust.txt-draft00',
                 account: {
                     account: tabDomain,
-                    platform: 'member'
-                }
+                    platform: matchingRelation
+                },
+                source,
+                selector,
+                diagnostics,
+                relationship,
+                file: trustTxtFile,
+                fetchedAt,
+                content,
+                signature
             };
         }
-        if (debug) { console.log('Validator - lookupTrustUri:', tabUrl, 'not found in', trustUri); }
-        return { type: 'notFound', baseurl: trustUri };
+        if (debug) { console.log('Validator - lookupTrustUri:', tabUrl, 'not found in', describeSelector(selector), 'of', trustUri); }
+        return { type: 'notFound', baseurl: trustUri, source, selector, diagnostics, file: trustTxtFile, fetchedAt, content, signature };
     } else {
         if (debug) { console.log('Validator - lookupTrustUri: tabDomain == trustUrl'); }
-        // Send a request to the WP validator plugin
-        const url = "https://journallist.net/wp-json/trust-txt/v1/validate";
-        const data = {
-        url: tabUrl
-        };
-        
-        let count = 0;
-        const results: lookupTrustUriResult = {
-            type: "multiple",
-            list: [{
-                status: "",
-                domain: "",
-                message: ""
-            }]
-        };
-
-        await fetch(url, {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json"
-        },
-        body: JSON.stringify(data)
-        })
-        .then(response => {
-            if (!response.ok) {
-            throw new Error(`HTTP error! Status: ${response.status}`);
-            }
-            return response.json();
-        })
-        .then(data => {
-            if (debug) { console.log("Validator - lookupTrustUri: REST API response:", data); }
-            for (const obj of data) {
-                results.list[count] = {status: obj.status, domain: obj.domain, message: obj.message};
-                count += 1;
+        const endpoint = options.validatorEndpoint ?? VALIDATOR_ENDPOINT;
+        if (endpoint) {
+            const remote = await validateRemotely(endpoint, tabUrl, context);
+            if (!(remote instanceof Error)) {
+                if (debug) { console.log('Validator - lookupTrustUri: remote results:', remote); }
+                return { type: 'multiple', list: remote, source, file: trustTxtFile, fetchedAt, content, signature };
             }
-        })
-        .catch(error => {
-            console.error("Error:", error);
-        });
-        if (debug) { console.log("Validator - lookupTrustUri: results:", results); }
-        return results;
+            // the remote validator is optional; fall back to validating locally
+            if (debug) { console.log('Validator - lookupTrustUri: remote validator failed:', remote.message); }
+        }
+        const list = await validateTrustTxt(
+            trustDomain,
+            trustTxtFile,
+            download,
+            RECIPROCAL_RELATIONS.filter((relation) => !selector || selector === relation),
+        );
+        if (debug) { console.log('Validator - lookupTrustUri: results:', list); }
+        return { type: 'multiple', list, source, file: trustTxtFile, fetchedAt, content, signature };
     }
 }
@@ -0,0 +1,158 @@
+// @vitest-environment happy-dom
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { DEFAULT_SETTINGS } from '../src/settings';
+import { type lookupTrustUriResult } from '../src/xpoc-lib';
+import { installChrome, type FakeChrome } from './fixtures/chrome';
+import { installLayout, settle } from './fixtures/dom';
+
+const VERIFIED: lookupTrustUriResult = {
+    type: 'account',
+    name: 'publisher.example',
+    baseurl: 'publisher.example',
+    version: 'trust.txt-draft00',
+    account: { account: 'publisher', platform: 'Social' },
+};
+
+let extension: FakeChrome;
+let main: HTMLElement;
+
+// the content script keeps its state for the whole page, so it is loaded once for every test
+beforeAll(async () => {
+    installLayout();
+    // trust URIs are verified when found, without waiting for them to be scrolled into view
+    extension = installChrome({ verifyWhenVisible: false });
+    await import('../src/content');
+    await settle();
+});
+
+afterAll(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+beforeEach(async () => {
+    main = document.body.appendChild(document.createElement('main'));
+    await settle();
+    extension.lookups.length = 0;
+});
+
+afterEach(async () => {
+    main.remove();
+    await settle();
+});
+
+/**
+ * Adds a paragraph to the page and waits for the scanner to find its trust URIs.
+ */
+async function addParagraph(text: string): Promise<HTMLParagraphElement> {
+    const paragraph = document.createElement('p');
+    paragraph.textContent = text;
+    main.appendChild(paragraph);
+    await settle();
+    return paragraph;
+}
+
+/**
+ * Answers the lookup of a trust URI and returns the icons of a paragraph once the answer arrived.
+ */
+async function respond(trustUri: string, paragraph: HTMLElement): Promise<HTMLImageElement[]> {
+    extension.lookups.find((lookup) => lookup.trustUri === trustUri)?.respond(VERIFIED);
+    await settle();
+    return Array.from(paragraph.querySelectorAll('img[trust="trustIcon"]'));
+}
+
+describe('icons', () => {
+    it('shows an icon after the text of each trust URI', async () => {
+        const paragraph = await addParagraph('Member of trust://first.example! and trust://second.example!');
+        expect(extension.lookups.map((lookup) => lookup.trustUri)).toEqual(['trust://first.example!', 'trust://second.example!']);
+        await respond('trust://first.example!', paragraph);
+        const icons = await respond('trust://second.example!', paragraph);
+        expect(icons).toHaveLength(2);
+        expect(paragraph.getAttribute('trust')).toBe('trustLink');
+    });
+
+    it('removes the icon when its text is removed', async () => {
+        const paragraph = await addParagraph('trust://removed.example!');
+        expect(await respond('trust://removed.example!', paragraph)).toHaveLength(1);
+
+        const text = paragraph.firstChild as Text;
+        text.remove();
+        await settle();
+        expect(paragraph.querySelectorAll('img')).toHaveLength(0);
+        expect(paragraph.hasAttribute('trust')).toBe(false);
+    });
+
+    it('replaces the icon when its text is edited', async () => {
+        const paragraph = await addParagraph('trust://before.example!');
+        expect(await respond('trust://before.example!', paragraph)).toHaveLength(1);
+
+        (paragraph.firstChild as Text).data = 'trust://after.example!';
+        await settle();
+        expect(paragraph.querySelectorAll('img')).toHaveLength(0);
+        expect(extension.lookups.map((lookup) => lookup.trustUri)).toEqual(['trust://before.example!', 'trust://after.example!']);
+        expect(await respond('trust://after.example!', paragraph)).toHaveLength(1);
+    });
+
+    it('does not show an icon for text removed during its lookup', async () => {
+        const paragraph = await addParagraph('trust://gone.example!');
+        paragraph.remove();
+        await settle();
+        expect(await respond('trust://gone.example!', paragraph)).toHaveLength(0);
+    });
+});
+
+describe('single-page applications', () => {
+    it('removes every icon and discards pending lookups when the URL changes', async () => {
+        const verified = await addParagraph('trust://shown.example!');
+        expect(await respond('trust://shown.example!', verified)).toHaveLength(1);
+        const pending = await addParagraph('trust://pending.example!');
+        const stale = extension.lookups.find((lookup) => lookup.trustUri === 'trust://pending.example!');
+
+        extension.lookups.length = 0;
+        extension.send({ action: 'locationChanged', url: 'https://spa.example/next' });
+        await settle();
+        expect(verified.querySelectorAll('img')).toHaveLength(0);
+
+        // the lookup was made for the previous URL
+        stale?.respond(VERIFIED);
+        await settle();
+        expect(pending.querySelectorAll('img')).toHaveLength(0);
+
+        // the new view is scanned again
+        expect(extension.lookups.map((lookup) => lookup.trustUri).sort()).toEqual(['trust://pending.example!', 'trust://shown.example!']);
+        expect(await respond('trust://pending.example!', pending)).toHaveLength(1);
+    });
+
+    it('ignores a notice for the URL already shown', async () => {
+        extension.send({ action: 'locationChanged', url: 'https://spa.example/same' });
+        const paragraph = await addParagraph('trust://same.example!');
+        expect(await respond('trust://same.example!', paragraph)).toHaveLength(1);
+
+        // the page saw its own history change before background.js reported it
+        extension.send({ action: 'locationChanged', url: 'https://spa.example/same' });
+        await settle();
+        expect(paragraph.querySelectorAll('img')).toHaveLength(1);
+    });
+});
+
+describe('context menu', () => {
+    afterEach(() => {
+        extension.send({ action: 'settingsUpdated', settings: { ...DEFAULT_SETTINGS, verifyWhenVisible: false } });
+    });
+
+    it('shows the icon of the result background.js sent, without a second lookup', async () => {
+        extension.send({ action: 'settingsUpdated', settings: { ...DEFAULT_SETTINGS, autoVerifyTrustUris: false, verifyWhenVisible: false } });
+        const paragraph = await addParagraph('trust://clicked.example!');
+        window.getSelection()?.collapse(paragraph.firstChild, 0);
+        paragraph.dispatchEvent(new MouseEvent('mouseup', { button: 2, bubbles: true, composed: true }));
+
+        extension.send({ action: 'contextMenuResult', data: VERIFIED });
+        await settle();
+        expect(paragraph.querySelectorAll('img[trust="trustIcon"]')).toHaveLength(1);
+        expect(extension.lookups).toEqual([]);
+    });
+});
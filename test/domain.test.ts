@@ -0,0 +1,85 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import {
+    getHost,
+    getRegistrableDomain,
+    isSameHost,
+    isSameOrganization,
+} from '../src/domain';
+
+describe('getHost', () => {
+    it('accepts URLs, trust URIs and bare hosts', () => {
+        expect(getHost('https://news.example.com/path?q=1')).toBe('news.example.com');
+        expect(getHost('trust://example.com!')).toBe('example.com');
+        expect(getHost('trust://example.com/social!')).toBe('example.com');
+        expect(getHost('example.com')).toBe('example.com');
+    });
+
+    it('drops www, port, case and trailing dot', () => {
+        expect(getHost('https://WWW.Example.COM:8443/')).toBe('example.com');
+        expect(getHost('www.example.com.')).toBe('example.com');
+    });
+
+    it('rejects values that are not hosts', () => {
+        expect(getHost('')).toBeUndefined();
+        expect(getHost('https://')).toBeUndefined();
+        expect(getHost('not a host')).toBeUndefined();
+    });
+});
+
+describe('getRegistrableDomain', () => {
+    it('returns eTLD+1 for subdomains', () => {
+        expect(getRegistrableDomain('https://a.b.example.com')).toBe('example.com');
+    });
+
+    it('handles multi-part public suffixes', () => {
+        expect(getRegistrableDomain('https://news.example.co.uk')).toBe('example.co.uk');
+        expect(getRegistrableDomain('https://www.example.com.au')).toBe('example.com.au');
+    });
+
+    it('treats private suffixes as separate organizations', () => {
+        expect(getRegistrableDomain('https://alice.github.io')).toBe('alice.github.io');
+    });
+
+    it('has no registrable domain for public suffixes and IP addresses', () => {
+        expect(getRegistrableDomain('co.uk')).toBeUndefined();
+        expect(getRegistrableDomain('https://127.0.0.1:8080')).toBeUndefined();
+    });
+});
+
+describe('isSameHost', () => {
+    it('ignores www and ports', () => {
+        expect(isSameHost('https://www.example.com', 'example.com')).toBe(true);
+        expect(isSameHost('https://example.com:8443/a', 'https://example.com/b')).toBe(true);
+    });
+
+    it('does not match subdomains', () => {
+        expect(isSameHost('https://news.example.com', 'example.com')).toBe(false);
+    });
+});
+
+describe('isSameOrganization', () => {
+    it('matches subdomains of the same registrable domain', () => {
+        expect(isSameOrganization('https://news.example.com', 'https://www.example.com')).toBe(true);
+        expect(isSameOrganization('trust://example.co.uk!', 'https://news.example.co.uk')).toBe(true);
+    });
+
+    it('does not match on substrings', () => {
+        expect(isSameOrganization('https://fakenews.com.evil.io', 'news.com')).toBe(false);
+        expect(isSameOrganization('https://fakenews.com', 'news.com')).toBe(false);
+        expect(isSameOrganization('https://news.com.evil.io', 'news.com')).toBe(false);
+    });
+
+    it('does not merge organizations that share a public suffix', () => {
+        expect(isSameOrganization('https://one.co.uk', 'https://two.co.uk')).toBe(false);
+        expect(isSameOrganization('https://alice.github.io', 'https://bob.github.io')).toBe(false);
+    });
+
+    it('requires an exact match for IP addresses', () => {
+        expect(isSameOrganization('https://127.0.0.1:8080', '127.0.0.1')).toBe(true);
+        expect(isSameOrganization('https://127.0.0.1', '127.0.0.2')).toBe(false);
+    });
+});
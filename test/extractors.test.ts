@@ -0,0 +1,67 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import { describeSource, findTrustUri, matchTextRun } from '../src/extractors';
+
+describe('findTrustUri', () => {
+    it('finds a trust URI in text', () => {
+        expect(findTrustUri('Verify us at trust://example.com/social! today')).toBe('trust://example.com/social!');
+        expect(findTrustUri('trust://example.com')).toBe('trust://example.com');
+    });
+
+    it('stops at quotes so attribute values and JSON strings stay clean', () => {
+        expect(findTrustUri('<a href="trust://example.com/member">')).toBe('trust://example.com/member');
+        expect(findTrustUri("{'sameAs': 'trust://example.com'}")).toBe('trust://example.com');
+    });
+
+    it('returns undefined without a trust URI', () => {
+        expect(findTrustUri('https://example.com')).toBeUndefined();
+        expect(findTrustUri('')).toBeUndefined();
+        expect(findTrustUri(null)).toBeUndefined();
+    });
+});
+
+describe('matchTextRun', () => {
+    it('finds every trust URI in a text', () => {
+        const text = 'Member of trust://news.example! and trust://press.example/member!';
+        expect(matchTextRun([text])).toEqual([
+            { trustUri: 'trust://news.example!', endPiece: 0, endOffset: 31 },
+            { trustUri: 'trust://press.example/member!', endPiece: 0, endOffset: text.length },
+        ]);
+    });
+
+    it('reassembles a trust URI split across pieces', () => {
+        expect(matchTextRun(['Verify: trust://', 'example.com', '! now'])).toEqual([
+            { trustUri: 'trust://example.com!', endPiece: 2, endOffset: 1 },
+        ]);
+        expect(matchTextRun(['tru', 'st://example.com'])).toEqual([
+            { trustUri: 'trust://example.com', endPiece: 1, endOffset: 16 },
+        ]);
+    });
+
+    it('reports a URI ending at a piece boundary on that piece', () => {
+        expect(matchTextRun(['trust://a.example! ', 'trust://b.example!'])).toEqual([
+            { trustUri: 'trust://a.example!', endPiece: 0, endOffset: 18 },
+            { trustUri: 'trust://b.example!', endPiece: 1, endOffset: 18 },
+        ]);
+    });
+
+    it('returns nothing without a trust URI', () => {
+        expect(matchTextRun(['no ', 'uri ', 'here'])).toEqual([]);
+        expect(matchTextRun([])).toEqual([]);
+    });
+});
+
+describe('describeSource', () => {
+    it('names each kind of source', () => {
+        expect(describeSource({ kind: 'text' })).toBe('page text');
+        expect(describeSource({ kind: 'href', detail: 'href' })).toBe('link target');
+        expect(describeSource({ kind: 'link', detail: 'rel="me"' })).toBe('link rel="me"');
+        expect(describeSource({ kind: 'meta', detail: 'name="trust"' })).toBe('meta name="trust"');
+        expect(describeSource({ kind: 'meta' })).toBe('meta attribute');
+        expect(describeSource({ kind: 'title', detail: 'title' })).toBe('title attribute');
+        expect(describeSource({ kind: 'json-ld', detail: 'sameAs' })).toBe('JSON-LD sameAs');
+    });
+});
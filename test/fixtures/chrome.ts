@@ -0,0 +1,49 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { vi } from 'vitest';
+
+import { type lookupTrustUriResult } from '../../src/xpoc-lib';
+
+type MessageListener = (message: { action?: string }) => void;
+
+/**
+ * The side of background.js a content script talks to.
+ */
+export type FakeChrome = {
+    /** the lookups the content script asked for, in order; each is answered when the test decides */
+    lookups: Array<{ trustUri: string; respond: (result: lookupTrustUriResult) => void }>;
+    /** sends a message from background.js to the content script */
+    send: (message: unknown) => void;
+};
+
+/**
+ * Replaces the extension API used by content scripts.
+ * @param stored - The settings kept in chrome.storage.local.
+ */
+export function installChrome(stored: Record<string, unknown> = {}): FakeChrome {
+    const listeners: MessageListener[] = [];
+    const lookups: FakeChrome['lookups'] = [];
+    vi.stubGlobal('chrome', {
+        runtime: {
+            getURL: (path: string) => `chrome-extension://validator/${path}`,
+            onMessage: { addListener: (listener: MessageListener) => listeners.push(listener) },
+            sendMessage: (message: { action: string; trustUri?: string }, respond?: (result: unknown) => void) => {
+                if (message.action === 'lookupTrustUri' && respond) {
+                    lookups.push({ trustUri: message.trustUri as string, respond });
+                }
+                return Promise.resolve();
+            },
+        },
+        storage: {
+            local: {
+                get: async () => stored,
+                set: async () => {},
+            },
+        },
+    });
+    return {
+        lookups,
+        send: (message) => listeners.forEach((listener) => listener(message as { action?: string })),
+    };
+}
@@ -0,0 +1,85 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { vi } from 'vitest';
+
+/*
+    happy-dom does no layout: it has no working IntersectionObserver, no idle callbacks, and every
+    element measures 0x0. Tests install these stand-ins and decide themselves when an element is on screen.
+*/
+class FakeIntersectionObserver {
+    static instances: FakeIntersectionObserver[] = [];
+    readonly targets = new Set<Element>();
+
+    constructor(readonly callback: IntersectionObserverCallback) {
+        FakeIntersectionObserver.instances.push(this);
+    }
+
+    observe(target: Element): void {
+        this.targets.add(target);
+    }
+
+    unobserve(target: Element): void {
+        this.targets.delete(target);
+    }
+
+    disconnect(): void {
+        this.targets.clear();
+    }
+
+    takeRecords(): IntersectionObserverEntry[] {
+        return [];
+    }
+}
+
+/**
+ * Replaces IntersectionObserver, and gives every element a size unless it or an ancestor is not displayed.
+ */
+export function installLayout(): void {
+    FakeIntersectionObserver.instances = [];
+    vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+    // an idle period as soon as the current task ends
+    vi.stubGlobal('requestIdleCallback', (callback: IdleRequestCallback) =>
+        setTimeout(() => callback({ didTimeout: false, timeRemaining: () => 50 })),
+    );
+    vi.stubGlobal('cancelIdleCallback', (handle: number) => clearTimeout(handle));
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(function (this: Element) {
+        const displayed = isDisplayed(this);
+        return { x: 0, y: 0, top: 0, left: 0, right: 100, bottom: 20, width: displayed ? 100 : 0, height: displayed ? 20 : 0 } as DOMRect;
+    });
+}
+
+function isDisplayed(element: Element): boolean {
+    for (let node: Node | null = element; node; node = node instanceof ShadowRoot ? node.host : node.parentNode) {
+        // inline styles are enough for the tests, and read without getComputedStyle so tests can count its calls
+        if (node instanceof HTMLElement && node.style.display === 'none') {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Scrolls an element near the viewport: every observer watching it is told it intersects.
+ * @returns Whether an observer was watching the element.
+ */
+export function intersect(element: Element): boolean {
+    const observers = FakeIntersectionObserver.instances.filter((observer) => observer.targets.has(element));
+    observers.forEach((observer) =>
+        observer.callback(
+            [{ target: element, isIntersecting: true } as unknown as IntersectionObserverEntry],
+            observer as unknown as IntersectionObserver,
+        ),
+    );
+    return observers.length > 0;
+}
+
+/**
+ * Waits for mutation observers, the idle callbacks they schedule and other queued tasks to run,
+ * then for the next animation frame.
+ */
+export async function settle(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+}
@@ -0,0 +1,163 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { type Transport } from '../../src/transport';
+
+const SITES = join(fileURLToPath(new URL('.', import.meta.url)), 'sites');
+
+const CACHE_FILE = 'member=https://publisher.example\n';
+const LAST_MODIFIED = 'Mon, 19 Oct 2026 12:00:00 GMT';
+
+/*
+    Hosts with special behavior; every other host is served from the files in ./sites/<host>/
+*/
+const ROUTES: Record<string, (res: ServerResponse, req: IncomingMessage) => void | Promise<void>> = {
+    // answers after the test timeout
+    'slow.example/.well-known/trust.txt': async (res) => {
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        res.writeHead(200, { 'Content-Type': 'text/plain' }).end('member=https://publisher.example\n');
+    },
+    // redirect to the www variant of the same host: allowed
+    'redirect-same.example/.well-known/trust.txt': (res) => {
+        res.writeHead(301, { Location: 'https://www.redirect-same.example/.well-known/trust.txt' }).end();
+    },
+    // redirect to another organization's file: rejected
+    'redirect-cross.example/.well-known/trust.txt': (res) => {
+        res.writeHead(302, { Location: 'https://association.example/.well-known/trust.txt' }).end();
+    },
+    // "soft 404": an HTML page instead of a 404
+    'soft404.example/.well-known/trust.txt': (res) => {
+        res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html><body>Not found</body></html>');
+    },
+    // remote validator with a few rows that are not objects
+    'validator.example/validate': (res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(
+            JSON.stringify([{ status: 'found', domain: 'publisher.example', message: 'ok' }, null, 'junk', { domain: 3 }]),
+        );
+    },
+    // fresh for an hour
+    'maxage.example/.well-known/trust.txt': (res) => {
+        res.writeHead(200, { 'Content-Type': 'text/plain', 'Cache-Control': 'max-age=3600' }).end(CACHE_FILE);
+    },
+    // fresh until a date in the future
+    'expires.example/.well-known/trust.txt': (res) => {
+        res.writeHead(200, { 'Content-Type': 'text/plain', Expires: new Date(Date.now() + 3600000).toUTCString() })
+            .end(CACHE_FILE);
+    },
+    // never stored, even with an ETag
+    'nostore.example/.well-known/trust.txt': (res) => {
+        res.writeHead(200, { 'Content-Type': 'text/plain', 'Cache-Control': 'no-store', ETag: '"nostore"' })
+            .end(CACHE_FILE);
+    },
+    // stored, but revalidated with If-Modified-Since on every use
+    'nocache.example/.well-known/trust.txt': (res, req) => {
+        if (req.headers['if-modified-since'] === LAST_MODIFIED) {
+            res.writeHead(304, { 'Cache-Control': 'no-cache' }).end();
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/plain', 'Cache-Control': 'no-cache', 'Last-Modified': LAST_MODIFIED })
+            .end(CACHE_FILE);
+    },
+};
+
+// a hub listing more members than the graph resolver follows, each of them pointing back at the hub
+const HUB_MEMBERS = 30;
+ROUTES['hub.example/.well-known/trust.txt'] = (res) => {
+    const members = Array.from({ length: HUB_MEMBERS }, (_, i) => `member=https://spoke${i + 1}.example\n`);
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end(members.join(''));
+};
+for (let i = 1; i <= HUB_MEMBERS; i++) {
+    ROUTES[`spoke${i}.example/.well-known/trust.txt`] = (res) => {
+        res.writeHead(200, { 'Content-Type': 'text/plain' }).end('belongto=https://hub.example\n');
+    };
+}
+
+export type FixtureServer = {
+    /** routes https://<host>/<path> requests to the local server */
+    transport: Transport;
+    /** the https URLs requested so far */
+    requests: string[];
+    /** the status of each response, in the order of the requests */
+    statuses: number[];
+    close: () => Promise<void>;
+};
+
+/**
+ * Starts a local HTTP server that serves the fixture sites, and a transport that
+ * maps `https://<host>/<path>` to `http://127.0.0.1:<port>/<host>/<path>`.
+ * Redirects are followed by the transport so that `Response.url` reports the https URL.
+ */
+export async function startFixtureServer(): Promise<FixtureServer> {
+    const server = createServer((req, res) => {
+        handle(req, res).catch(() => res.writeHead(500).end());
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const requests: string[] = [];
+    const statuses: number[] = [];
+
+    const transport: Transport = async (url, init) => {
+        let current = url;
+        for (let redirects = 0; redirects < 5; redirects++) {
+            requests.push(current);
+            const target = new URL(current);
+            const response = await fetch(
+                `http://127.0.0.1:${port}/${target.hostname}${target.pathname}${target.search}`,
+                { ...init, redirect: 'manual' },
+            );
+            statuses.push(response.status);
+            const location = response.headers.get('Location');
+            if (response.status >= 300 && response.status < 400 && location) {
+                current = new URL(location, current).href;
+                continue;
+            }
+            // Response.url cannot be set through the constructor
+            Object.defineProperty(response, 'url', { value: current });
+            return response;
+        }
+        throw new TypeError(`Too many redirects for ${url}`);
+    };
+
+    const close = () =>
+        new Promise<void>((resolve) => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        });
+
+    return { transport, requests, statuses, close };
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname).replace(/^\//, '');
+    const route = ROUTES[path];
+    if (route) {
+        await route(res, req);
+        return;
+    }
+    if (path.split('/').includes('..')) {
+        res.writeHead(400).end();
+        return;
+    }
+    const body = await readFile(join(SITES, path), 'utf8').catch(() => undefined);
+    if (body === undefined) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+        return;
+    }
+    const etag = `"${createHash('sha1').update(body).digest('hex')}"`;
+    if (req.headers['if-none-match'] === etag) {
+        res.writeHead(304, { ETag: etag, 'Cache-Control': 'max-age=0' }).end();
+        return;
+    }
+    res.writeHead(200, {
+        'Content-Type': 'text/plain; charset=utf-8',
+        ETag: etag,
+        'Cache-Control': 'max-age=0',
+    }).end(body);
+}
@@ -0,0 +1,92 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import {
+    createHistoryEntry,
+    filterHistory,
+    formatHistoryCsv,
+    formatHistoryJson,
+    type HistoryEntry,
+} from '../src/history';
+import { emptyTrustTxtFile } from '../src/trust-txt';
+
+const file = {
+    ...emptyTrustTxtFile(),
+    social: ['https://social.example/@publisher'],
+    contact: ['tips@publisher.example'],
+};
+
+const content = '# Publisher\nsocial=https://social.example/@publisher\ncontact=tips@publisher.example\n';
+
+const entries: HistoryEntry[] = [
+    createHistoryEntry('https://social.example/@publisher', 'trust://publisher.example!', {
+        type: 'account',
+        name: 'Publisher',
+        baseurl: 'publisher.example',
+        version: 'trust.txt-draft00',
+        account: { account: 'publisher', platform: 'Social' },
+        file,
+        content,
+    }, Date.UTC(2026, 9, 19, 12)),
+    createHistoryEntry('https://www.news.example/story', 'trust://other.example!', {
+        type: 'error',
+        baseurl: 'trust://other.example!',
+        message: 'Error fetching trust.txt file: "timed out", said the server',
+    }, Date.UTC(2026, 9, 19, 13)),
+];
+
+describe('createHistoryEntry', () => {
+    it('records the verdict and the downloaded trust.txt file', () => {
+        expect(entries[0]).toMatchObject({
+            level: 'valid',
+            status: 'Verified',
+            source: 'https://publisher.example/.well-known/trust.txt',
+            snapshot: content,
+        });
+        expect(entries[1]).toMatchObject({ level: 'invalid', status: 'Error', snapshot: undefined });
+    });
+});
+
+describe('filterHistory', () => {
+    it('matches the page or the trust URI domain, including subdomains', () => {
+        expect(filterHistory(entries, { domain: 'publisher.example' })).toEqual([entries[0]]);
+        expect(filterHistory(entries, { domain: 'news.example' })).toEqual([entries[1]]);
+        expect(filterHistory(entries, { domain: 'other.example' })).toEqual([entries[1]]);
+        expect(filterHistory(entries, { domain: 'ample' })).toEqual([]);
+        expect(filterHistory(entries, { domain: 'www.social.example' })).toEqual([entries[0]]);
+    });
+
+    it('matches the status', () => {
+        expect(filterHistory(entries, { level: 'invalid' })).toEqual([entries[1]]);
+        expect(filterHistory(entries, {})).toEqual(entries);
+    });
+});
+
+describe('history export', () => {
+    it('writes CSV with quoted fields', () => {
+        const [header, first, ...rest] = formatHistoryCsv(entries).split('\r\n');
+        expect(header).toBe('checkedAt,url,trustUri,level,status,summary,source,snapshot');
+        expect(first.startsWith('2026-10-19T12:00:00.000Z,https://social.example/@publisher,')).toBe(true);
+        expect(first).toContain('"# Publisher\nsocial=https://social.example/@publisher\ncontact=tips@publisher.example\n"');
+        expect(rest.join('\r\n')).toContain('"Error fetching trust.txt file: ""timed out"", said the server"');
+    });
+
+    it('keeps spreadsheets from running values as formulas', () => {
+        const entry = { ...entries[1], summary: '=HYPERLINK("https://evil.example")' };
+        expect(formatHistoryCsv([entry])).toContain(',"\'=HYPERLINK(""https://evil.example"")",');
+    });
+
+    it('writes JSON with ISO times', () => {
+        expect(JSON.parse(formatHistoryJson(entries))[1]).toEqual({
+            checkedAt: '2026-10-19T13:00:00.000Z',
+            url: 'https://www.news.example/story',
+            trustUri: 'trust://other.example!',
+            level: 'invalid',
+            status: 'Error',
+            summary: 'Error fetching trust.txt file: "timed out", said the server',
+            source: 'https://other.example/.well-known/trust.txt',
+        });
+    });
+});
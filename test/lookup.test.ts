@@ -0,0 +1,469 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+    clearTrustTxtCache,
+    lookupTrustUri,
+    resolveTrustGraph,
+    type lookupTrustUriOptions,
+} from '../src/xpoc-lib';
+import { getFreshness } from '../src/cache';
+import { checkSignatureDowngrade, getSignatureLevel } from '../src/signature';
+import { startFixtureServer, type FixtureServer } from './fixtures/server';
+
+let server: FixtureServer;
+
+const options: lookupTrustUriOptions = { timeout: 100 };
+
+const lookup = (tabUrl: string, trustUri: string, extra: lookupTrustUriOptions = {}) =>
+    lookupTrustUri(tabUrl, trustUri, { ...options, ...extra }, server.transport);
+
+beforeAll(async () => {
+    server = await startFixtureServer();
+});
+
+afterAll(async () => {
+    await server.close();
+});
+
+beforeEach(async () => {
+    await clearTrustTxtCache();
+    server.requests.length = 0;
+    server.statuses.length = 0;
+});
+
+describe('social matches', () => {
+    it('matches an account listed in social=', async () => {
+        const result = await lookup('https://social.example/publisher', 'trust://publisher.example!');
+        expect(result.type).toBe('account');
+        if (result.type === 'account') {
+            expect(result.name).toBe('publisher.example');
+            expect(result.source).toBe('https://publisher.example/.well-known/trust.txt');
+            expect(result.file?.contact).toEqual(['mailto:newsroom@publisher.example']);
+            expect(result.fetchedAt).toBeGreaterThan(0);
+        }
+    });
+
+    it('ignores query strings and trailing slashes', async () => {
+        const result = await lookup('https://video.example/channel/publisher/?tab=videos', 'trust://publisher.example!');
+        expect(result.type).toBe('account');
+    });
+
+    it('reports accounts that are not listed', async () => {
+        const result = await lookup('https://social.example/impostor', 'trust://publisher.example!');
+        expect(result).toMatchObject({ type: 'notFound', baseurl: 'trust://publisher.example!' });
+    });
+});
+
+describe('user-defined platforms', () => {
+    const platformRules = [{ name: 'Forum', host: 'forum.example', path: '/u/{account}' }];
+
+    it('matches accounts on a user-defined platform', async () => {
+        const result = await lookup('https://www.forum.example/u/publisher/', 'trust://publisher.example!', { platformRules });
+        expect(result).toMatchObject({ type: 'account', account: { platform: 'Forum', account: 'publisher' } });
+    });
+
+    it('falls back to comparing URLs without the rule', async () => {
+        const result = await lookup('https://www.forum.example/u/publisher/', 'trust://publisher.example!');
+        expect(result.type).toBe('notFound');
+    });
+});
+
+describe('Fediverse accounts', () => {
+    it('ties a profile on any instance to a handle through WebFinger', async () => {
+        const result = await lookup('https://mastodon.example/@publisher', 'trust://publisher.example!');
+        expect(result).toMatchObject({ type: 'account', account: { platform: 'Fediverse', account: 'news@publisher.example' } });
+        expect(server.requests).toContain('https://publisher.example/.well-known/webfinger?resource=acct%3Anews%40publisher.example');
+    });
+
+    it('accepts the ActivityPub actor URL', async () => {
+        const result = await lookup('https://mastodon.example/users/Publisher/', 'trust://publisher.example!');
+        expect(result.type).toBe('account');
+    });
+
+    it('rejects other accounts and profiles shown by another instance', async () => {
+        expect((await lookup('https://mastodon.example/@impostor', 'trust://publisher.example!')).type).toBe('notFound');
+        expect((await lookup('https://evil.example/@publisher@mastodon.example', 'trust://publisher.example!')).type).toBe('notFound');
+    });
+});
+
+describe('Bluesky accounts', () => {
+    it('ties a DID profile to a handle through .well-known/atproto-did', async () => {
+        const result = await lookup('https://bsky.app/profile/did:plc:publisher', 'trust://publisher.example!');
+        expect(result).toMatchObject({ type: 'account', account: { platform: 'Bluesky', account: 'publisher.example' } });
+    });
+
+    it('accepts the other handles of the DID document', async () => {
+        const result = await lookup('https://bsky.app/profile/Publisher.bsky.social', 'trust://publisher.example!');
+        expect(result.type).toBe('account');
+    });
+
+    it('does not trust a handle that claims the same DID', async () => {
+        const result = await lookup('https://bsky.app/profile/impostor.example', 'trust://publisher.example!');
+        expect(result.type).toBe('notFound');
+    });
+});
+
+describe('member matches', () => {
+    it('matches a member on any host of its registrable domain', async () => {
+        const result = await lookup('https://www.publisher.example/news/story', 'trust://association.example!');
+        expect(result).toMatchObject({
+            type: 'account',
+            account: { account: 'publisher.example', platform: 'member' },
+        });
+    });
+
+    it('does not match a domain that is only a substring of a member entry', async () => {
+        const result = await lookup('https://news.com/', 'trust://association.example!');
+        expect(result.type).toBe('notFound');
+    });
+
+    it('does not vouch for a vendor or customer unless the trust URI selects the relation', async () => {
+        const vendor = await lookup('https://cms.example/', 'trust://agency.example!');
+        expect(vendor.type).toBe('notFound');
+        const customer = await lookup('https://client.example/', 'trust://agency.example!');
+        expect(customer.type).toBe('notFound');
+        const selected = await lookup('https://cms.example/', 'trust://agency.example/vendor!');
+        expect(selected).toMatchObject({ type: 'account', account: { account: 'cms.example', platform: 'vendor' } });
+    });
+
+    it('confirms a membership declared from both sides', async () => {
+        const result = await lookup('https://publisher.example/', 'trust://association.example!', { verifyReciprocal: true });
+        expect(result.type === 'account' && result.relationship?.state).toBe('confirmed');
+    });
+
+    it('flags a one-sided membership', async () => {
+        const result = await lookup('https://lonely.example/', 'trust://association.example!', { verifyReciprocal: true });
+        expect(result.type === 'account' && result.relationship?.state).toBe('one-sided');
+    });
+});
+
+describe('same-domain validation', () => {
+    it('checks every referenced organization locally', async () => {
+        const result = await lookup('https://association.example/about', 'trust://association.example!', { validatorEndpoint: '' });
+        expect(result.type).toBe('multiple');
+        if (result.type === 'multiple') {
+            expect(result.list.find((row) => row.domain === 'publisher.example')?.status).toBe('found');
+            expect(result.list.find((row) => row.domain === 'lonely.example')?.status).toBe('not found');
+            expect(result.list.find((row) => row.domain === 'fakenews.com.evil.example')?.status).toBe('error');
+        }
+    });
+});
+
+describe('remote validation', () => {
+    it('keeps the object rows of the validator response', async () => {
+        const result = await lookup('https://association.example/about', 'trust://association.example!', {
+            validatorEndpoint: 'https://validator.example/validate',
+        });
+        expect(result).toMatchObject({
+            type: 'multiple',
+            list: [
+                { status: 'found', domain: 'publisher.example', message: 'ok' },
+                { status: '', domain: '3', message: '' },
+            ],
+        });
+    });
+});
+
+describe('trust URI paths', () => {
+    it('restricts matching to the selected kind of entry', async () => {
+        const social = await lookup('https://social.example/publisher', 'trust://publisher.example/social!');
+        expect(social).toMatchObject({ type: 'account', selector: 'social' });
+        const member = await lookup('https://social.example/publisher', 'trust://publisher.example/member!');
+        expect(member).toMatchObject({ type: 'notFound', selector: 'member' });
+    });
+
+    it('fetches the trust.txt file at the root of the host', async () => {
+        await lookup('https://social.example/publisher', 'trust://publisher.example/social!');
+        expect(server.requests).toEqual(['https://publisher.example/.well-known/trust.txt']);
+    });
+
+    it('reports malformed paths without fetching anything', async () => {
+        const result = await lookup('https://social.example/publisher', 'trust://publisher.example/foo/bar!');
+        expect(result).toMatchObject({ type: 'error', invalidUri: true });
+        expect(server.requests).toEqual([]);
+    });
+});
+
+describe('signatures', () => {
+    const verifySignature = true;
+
+    it('verifies a signature with a key published by the association', async () => {
+        const result = await lookup('https://social.example/signed', 'trust://signed.example!', { verifySignature });
+        expect(result).toMatchObject({
+            type: 'account',
+            signature: { status: 'signed', signer: 'council.example', keyId: 'council-2026' },
+        });
+    });
+
+    it('verifies the file as downloaded, with its byte order mark and CRLF line ends', async () => {
+        const result = await lookup('https://social.example/crlf', 'trust://crlf.example!', { verifySignature });
+        expect(result).toMatchObject({ type: 'account', signature: { status: 'signed' } });
+    });
+
+    it('flags a file that was altered after it was signed', async () => {
+        const result = await lookup('https://social.example/hijacker', 'trust://tampered.example!', { verifySignature });
+        expect(result.type === 'account' && result.signature?.status).toBe('bad-signature');
+    });
+
+    it('flags a missing signature when the association expects one', async () => {
+        const result = await lookup('https://social.example/nosig', 'trust://nosig.example!', { verifySignature });
+        expect(result.type === 'account' && result.signature?.status).toBe('bad-signature');
+    });
+
+    it('does not trust keys of an association that does not list the publisher as a member', async () => {
+        const result = await lookup('https://social.example/rogue', 'trust://rogue.example!', { verifySignature });
+        expect(result).toMatchObject({ type: 'account', signature: { status: 'unverifiable' } });
+        expect(server.requests).not.toContain('https://attacker.example/.well-known/trust-keys.json');
+    });
+
+    it('reports a signature whose key no association publishes as unverifiable', async () => {
+        const result = await lookup('https://social.example/otherkid', 'trust://otherkid.example!', { verifySignature });
+        expect(result).toMatchObject({ type: 'account', signature: { status: 'unverifiable' } });
+        expect(getSignatureLevel(result.type === 'account' ? result.signature : undefined)).toBe('warning');
+    });
+
+    it('reports signatures the browser cannot check as unverifiable', async () => {
+        // WebCrypto without Ed25519, e.g. Firefox 128
+        const importKey = vi
+            .spyOn(crypto.subtle, 'importKey')
+            .mockRejectedValue(new DOMException('Unrecognized algorithm name', 'NotSupportedError'));
+        const result = await lookup('https://social.example/signed', 'trust://signed.example!', { verifySignature });
+        importKey.mockRestore();
+        expect(result.type === 'account' && result.signature?.status).toBe('unverifiable');
+    });
+
+    it('reports files without a signature or key as unsigned', async () => {
+        const result = await lookup('https://social.example/publisher', 'trust://publisher.example!', { verifySignature });
+        expect(result.type === 'account' && result.signature?.status).toBe('unsigned');
+    });
+
+    it('flags an unsigned file of a domain that was signed before', async () => {
+        const result = await lookup('https://social.example/publisher', 'trust://publisher.example!', { verifySignature });
+        const check = result.type === 'account' ? result.signature : undefined;
+        expect(getSignatureLevel(check)).toBe('valid');
+        const downgraded = checkSignatureDowngrade(check!, 'council.example');
+        expect(downgraded).toMatchObject({ status: 'unsigned', previousSigner: 'council.example' });
+        expect(getSignatureLevel(downgraded)).toBe('warning');
+    });
+
+    it('does not check signatures unless asked', async () => {
+        const result = await lookup('https://social.example/signed', 'trust://signed.example!');
+        expect(result.type === 'account' && result.signature).toBeUndefined();
+        expect(server.requests).not.toContain('https://signed.example/.well-known/trust.txt.sig');
+    });
+});
+
+describe('download failures', () => {
+    it('reports a missing trust.txt file', async () => {
+        const result = await lookup('https://social.example/publisher', 'trust://missing.example!');
+        expect(result.type).toBe('error');
+        if (result.type === 'error') {
+            expect(result.message).toContain('HTTP error: 404');
+        }
+    });
+
+    it('times out slow servers', async () => {
+        const result = await lookup('https://social.example/publisher', 'trust://slow.example!');
+        expect(result.type).toBe('error');
+        if (result.type === 'error') {
+            expect(result.message).toContain('HTTP timeout of 100ms');
+        }
+    });
+
+    it('rejects HTML pages served as trust.txt', async () => {
+        const result = await lookup('https://social.example/publisher', 'trust://soft404.example!');
+        expect(result.type).toBe('error');
+    });
+
+    it('rejects invalid trust URIs', async () => {
+        const result = await lookup('https://social.example/publisher', 'https://publisher.example');
+        expect(result.type).toBe('error');
+    });
+});
+
+describe('discovery and redirects', () => {
+    it('falls back to the root location', async () => {
+        const result = await lookup('https://publisher.example/', 'trust://rootonly.example!');
+        expect(result.type === 'account' && result.source).toBe('https://rootonly.example/trust.txt');
+    });
+
+    it('falls back to the www host', async () => {
+        const result = await lookup('https://publisher.example/', 'trust://wwwonly.example!');
+        expect(result.type === 'account' && result.source).toBe('https://www.wwwonly.example/.well-known/trust.txt');
+    });
+
+    it('follows a redirect to the www host and records the real source', async () => {
+        const result = await lookup('https://publisher.example/', 'trust://redirect-same.example!');
+        expect(result.type === 'account' && result.source).toBe('https://www.redirect-same.example/.well-known/trust.txt');
+    });
+
+    it('rejects a redirect to another host', async () => {
+        const result = await lookup('https://publisher.example/', 'trust://redirect-cross.example!');
+        expect(result.type).toBe('error');
+        if (result.type === 'error') {
+            expect(result.message).toContain('Cross-host redirect');
+        }
+    });
+});
+
+describe('malformed files', () => {
+    it('keeps the valid entries and reports the rest', async () => {
+        const result = await lookup('https://publisher.example/', 'trust://malformed.example!');
+        expect(result.type).toBe('account');
+        if (result.type === 'account') {
+            const codes = result.diagnostics?.map((d) => [d.line, d.code]);
+            expect(codes).toEqual([
+                [3, 'malformed-line'],
+                [4, 'unknown-variable'],
+                [5, 'invalid-url'],
+                [6, 'non-https-url'],
+                [9, 'conflicting-datatrainingallowed'],
+            ]);
+        }
+    });
+});
+
+describe('cache', () => {
+    it('shares one download between concurrent lookups', async () => {
+        await Promise.all([
+            lookup('https://social.example/publisher', 'trust://publisher.example!'),
+            lookup('https://social.example/impostor', 'trust://publisher.example!'),
+        ]);
+        const downloads = server.requests.filter((url) => url === 'https://publisher.example/.well-known/trust.txt');
+        expect(downloads).toHaveLength(1);
+    });
+
+    it('revalidates max-age=0 files with If-None-Match on every lookup', async () => {
+        const first = await lookup('https://social.example/publisher', 'trust://publisher.example!');
+        const second = await lookup('https://social.example/publisher', 'trust://publisher.example!');
+        expect(server.statuses).toEqual([200, 304]);
+        expect(second).toMatchObject({ type: 'account', content: first.type === 'account' ? first.content : '' });
+    });
+
+    it('revalidates no-cache files with If-Modified-Since', async () => {
+        await lookup('https://social.example/publisher', 'trust://nocache.example!');
+        const result = await lookup('https://social.example/publisher', 'trust://nocache.example!');
+        expect(server.statuses).toEqual([200, 304]);
+        expect(result).toMatchObject({ type: 'notFound', content: 'member=https://publisher.example\n' });
+    });
+
+    it('reuses files until their max-age or Expires date', async () => {
+        for (const host of ['maxage.example', 'expires.example']) {
+            await lookup('https://social.example/publisher', `trust://${host}!`);
+            await lookup('https://social.example/publisher', `trust://${host}!`);
+        }
+        expect(server.requests).toEqual([
+            'https://maxage.example/.well-known/trust.txt',
+            'https://expires.example/.well-known/trust.txt',
+        ]);
+    });
+
+    it('revalidates fresh files older than the cache age setting', async () => {
+        await lookup('https://social.example/publisher', 'trust://maxage.example!', { cacheMaxAge: 0 });
+        await lookup('https://social.example/publisher', 'trust://maxage.example!', { cacheMaxAge: 0 });
+        expect(server.statuses).toEqual([200, 200]);
+    });
+
+    it('downloads no-store files again without a conditional request', async () => {
+        await lookup('https://social.example/publisher', 'trust://nostore.example!');
+        await lookup('https://social.example/publisher', 'trust://nostore.example!');
+        expect(server.statuses).toEqual([200, 200]);
+    });
+});
+
+describe('getFreshness', () => {
+    const now = Date.UTC(2026, 9, 19, 12);
+    const freshness = (headers: Record<string, string>) => getFreshness(new Headers(headers), now);
+
+    it('does not store no-store responses', () => {
+        expect(freshness({ 'Cache-Control': 'no-store, max-age=60' })).toEqual({ store: false, expiresAt: now });
+    });
+
+    it('stores no-cache and max-age=0 responses already expired', () => {
+        expect(freshness({ 'Cache-Control': 'no-cache, max-age=60' })).toEqual({ store: true, expiresAt: now });
+        expect(freshness({ 'Cache-Control': 'max-age=0' })).toEqual({ store: true, expiresAt: now });
+    });
+
+    it('prefers max-age to Expires', () => {
+        const headers = { 'Cache-Control': 'public, Max-Age=60', Expires: 'Mon, 19 Oct 2026 13:00:00 GMT' };
+        expect(freshness(headers)).toEqual({ store: true, expiresAt: now + 60000 });
+    });
+
+    it('uses the Expires date, and treats an invalid one as expired', () => {
+        expect(freshness({ Expires: 'Mon, 19 Oct 2026 13:00:00 GMT' })).toEqual({ store: true, expiresAt: now + 3600000 });
+        expect(freshness({ Expires: 'never' })).toEqual({ store: true, expiresAt: now });
+    });
+
+    it('keeps responses without freshness headers for 15 minutes', () => {
+        expect(freshness({})).toEqual({ store: true, expiresAt: now + 15 * 60 * 1000 });
+    });
+});
+
+describe('trust graph', () => {
+    it('follows relations breadth-first and stops at cycles', async () => {
+        const result = await resolveTrustGraph('trust://publisher.example!', {}, server.transport);
+        expect(result.type).toBe('graph');
+        if (result.type === 'graph') {
+            expect(result.graph.edges).toContainEqual({ from: 'publisher.example', to: 'association.example', relation: 'belongto' });
+            expect(result.graph.edges).toContainEqual({ from: 'association.example', to: 'publisher.example', relation: 'member' });
+            expect(Object.keys(result.graph.nodes).sort()).toEqual([
+                'association.example',
+                'fakenews.com.evil.example',
+                'lonely.example',
+                'publisher.example',
+            ]);
+        }
+    });
+
+    it('fetches each organization of a cycle once', async () => {
+        const result = await resolveTrustGraph('trust://ring1.example!', {}, server.transport);
+        expect(result.type).toBe('graph');
+        if (result.type === 'graph') {
+            expect(result.graph.edges).toEqual([
+                { from: 'ring1.example', to: 'ring2.example', relation: 'control' },
+                { from: 'ring2.example', to: 'ring3.example', relation: 'control' },
+                { from: 'ring3.example', to: 'ring1.example', relation: 'control' },
+            ]);
+            expect(Object.values(result.graph.nodes).map((node) => [node.domain, node.depth, node.status])).toEqual([
+                ['ring1.example', 0, 'resolved'],
+                ['ring2.example', 1, 'resolved'],
+                ['ring3.example', 2, 'resolved'],
+            ]);
+            expect(result.graph.truncated).toBe(false);
+        }
+        expect(server.requests.filter((url) => url.endsWith('/trust.txt')).sort()).toEqual([
+            'https://ring1.example/.well-known/trust.txt',
+            'https://ring2.example/.well-known/trust.txt',
+            'https://ring3.example/.well-known/trust.txt',
+        ]);
+    });
+
+    it('does not fetch organizations past the depth limit', async () => {
+        const result = await resolveTrustGraph('trust://ring1.example!', { maxDepth: 1 }, server.transport);
+        expect(result.type).toBe('graph');
+        if (result.type === 'graph') {
+            expect(result.graph.nodes['ring3.example']).toMatchObject({ depth: 2, status: 'unvisited' });
+            expect(result.graph.truncated).toBe(true);
+        }
+        expect(server.requests).not.toContain('https://ring3.example/.well-known/trust.txt');
+    });
+
+    it('stops at 25 organizations', async () => {
+        const result = await resolveTrustGraph('trust://hub.example!', {}, server.transport);
+        expect(result.type).toBe('graph');
+        if (result.type === 'graph') {
+            const domains = Object.keys(result.graph.nodes);
+            expect(domains).toHaveLength(25);
+            expect(domains).toContain('spoke24.example');
+            expect(domains).not.toContain('spoke25.example');
+            expect(result.graph.truncated).toBe(true);
+            // no edge points at an organization left out of the graph
+            expect(result.graph.edges.every((edge) => result.graph.nodes[edge.to])).toBe(true);
+            expect(result.graph.edges).toContainEqual({ from: 'spoke24.example', to: 'hub.example', relation: 'belongto' });
+        }
+        expect(server.requests).not.toContain('https://spoke25.example/.well-known/trust.txt');
+    });
+});
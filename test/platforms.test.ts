@@ -0,0 +1,83 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import {
+    compilePlatformRule,
+    createPlatformRegistry,
+    genericPlatformMatcher,
+    matchAccountUrl,
+    validatePlatformRule,
+} from '../src/platforms';
+
+const forum = { name: 'Forum', host: 'forum.example', path: '/u/{account}' };
+
+describe('genericPlatformMatcher', () => {
+    it('ignores scheme, www, query, fragment and trailing slashes', () => {
+        const expected = { platform: '', account: 'social.example/publisher' };
+        expect(genericPlatformMatcher.canonicalize('https://social.example/publisher')).toEqual(expected);
+        expect(genericPlatformMatcher.canonicalize('http://WWW.Social.example/publisher/?ref=1#top')).toEqual(expected);
+    });
+
+    it('keeps the case of the path', () => {
+        expect(genericPlatformMatcher.canonicalize('https://social.example/Publisher')?.account).toBe('social.example/Publisher');
+    });
+
+    it('only accepts web URLs', () => {
+        expect(genericPlatformMatcher.canonicalize('mailto:someone@social.example')).toBeUndefined();
+        expect(genericPlatformMatcher.canonicalize('social.example/publisher')).toBeUndefined();
+    });
+});
+
+describe('validatePlatformRule', () => {
+    it('accepts a complete rule', () => {
+        expect(validatePlatformRule(forum)).toBeUndefined();
+    });
+
+    it('rejects incomplete rules', () => {
+        expect(validatePlatformRule({ ...forum, name: ' ' })).toBeInstanceOf(Error);
+        expect(validatePlatformRule({ ...forum, host: 'not a host' })).toBeInstanceOf(Error);
+        expect(validatePlatformRule({ ...forum, path: 'u/{account}' })).toBeInstanceOf(Error);
+        expect(validatePlatformRule({ ...forum, path: '/u/' })).toBeInstanceOf(Error);
+        expect(validatePlatformRule({ ...forum, path: '/{account}/{account}' })).toBeInstanceOf(Error);
+    });
+});
+
+describe('compilePlatformRule', () => {
+    it('extracts the account from matching URLs', () => {
+        const matcher = compilePlatformRule(forum);
+        if (matcher instanceof Error) {
+            throw matcher;
+        }
+        expect(matcher.canonicalize('https://www.forum.example/u/Publisher/?page=2')).toEqual({ platform: 'Forum', account: 'publisher' });
+        expect(matcher.canonicalize('https://forum.example/u/publisher/posts')).toBeUndefined();
+        expect(matcher.canonicalize('https://other.example/u/publisher')).toBeUndefined();
+    });
+
+    it('escapes the rest of the path pattern', () => {
+        const matcher = compilePlatformRule({ name: 'Dots', host: 'dots.example', path: '/a.b/{account}' });
+        if (matcher instanceof Error) {
+            throw matcher;
+        }
+        expect(matcher.canonicalize('https://dots.example/axb/publisher')).toBeUndefined();
+        expect(matcher.canonicalize('https://dots.example/a.b/publisher')?.account).toBe('publisher');
+    });
+});
+
+describe('matchAccountUrl', () => {
+    const registry = createPlatformRegistry([], [forum, { name: 'Broken', host: '', path: '' }]);
+
+    it('uses the first matcher that recognizes the listed account', () => {
+        expect(matchAccountUrl(registry, 'https://forum.example/u/Publisher', 'https://forum.example/u/publisher/')).toEqual({
+            platform: 'Forum',
+            account: 'publisher',
+        });
+        expect(matchAccountUrl(registry, 'https://forum.example/u/publisher', 'https://forum.example/u/impostor')).toBeUndefined();
+    });
+
+    it('falls back to comparing URLs', () => {
+        expect(matchAccountUrl(registry, 'https://social.example/publisher', 'https://www.social.example/publisher/')).toBeDefined();
+        expect(matchAccountUrl(registry, 'https://social.example/publisher', 'https://social.example/publisher2')).toBeUndefined();
+    });
+});
@@ -0,0 +1,121 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import {
+    getDiagnosticsTables,
+    getProfileTables,
+    getSafeHref,
+    getSignatureTables,
+    getValidationTables,
+    linkCell,
+    type PopupCell,
+    type PopupTable,
+} from '../src/popup-content';
+import { type SignatureCheck } from '../src/signature';
+import { parseTrustTxt } from '../src/trust-txt';
+
+/**
+ * Returns every cell of the tables, including list items.
+ */
+function getCells(tables: PopupTable[]): PopupCell[] {
+    const flatten = (cell: PopupCell): PopupCell[] => (cell.type === 'list' ? cell.items.flatMap(flatten) : [cell]);
+    return tables.flatMap((table) => table.rows.flatMap((row) => flatten(row.value)));
+}
+
+describe('getSafeHref', () => {
+    it('accepts web, mail and phone links', () => {
+        expect(getSafeHref('https://publisher.example/about')).toBe('https://publisher.example/about');
+        expect(getSafeHref(' http://publisher.example ')).toBe('http://publisher.example/');
+        expect(getSafeHref('mailto:tips@publisher.example')).toBe('mailto:tips@publisher.example');
+        expect(getSafeHref('tel:+15550100000')).toBe('tel:+15550100000');
+    });
+
+    it('rejects script, data and relative URLs', () => {
+        expect(getSafeHref('javascript:alert(1)')).toBeUndefined();
+        expect(getSafeHref('JaVaScRiPt:alert(1)')).toBeUndefined();
+        expect(getSafeHref('java\tscript:alert(1)')).toBeUndefined();
+        expect(getSafeHref('data:text/html,<script>alert(1)</script>')).toBeUndefined();
+        expect(getSafeHref('vbscript:msgbox(1)')).toBeUndefined();
+        expect(getSafeHref('//evil.example')).toBeUndefined();
+        expect(getSafeHref('/relative')).toBeUndefined();
+    });
+});
+
+describe('linkCell', () => {
+    it('falls back to text for unsafe URLs', () => {
+        expect(linkCell('javascript:alert(1)')).toEqual({ type: 'text', text: 'javascript:alert(1)' });
+        expect(linkCell('https://publisher.example', 'Publisher')).toEqual({
+            type: 'link',
+            text: 'Publisher',
+            href: 'https://publisher.example/',
+        });
+    });
+});
+
+describe('popup tables with hostile trust.txt values', () => {
+    const hostile = parseTrustTxt([
+        'contact=javascript:alert(document.cookie)',
+        'contact=<img src=x onerror=alert(1)>@publisher.example',
+        'disclosure=https://publisher.example/"><script>alert(1)</script>',
+        'belongto=data:text/html,<script>alert(1)</script>',
+        'social=https://social.example/<b>publisher</b>',
+        'vendor=<a href="javascript:alert(1)">cms</a>',
+    ].join('\n'));
+
+    it('only links safe URLs', () => {
+        const cells = getCells(getProfileTables(hostile.file, 'https://publisher.example/.well-known/trust.txt', 0));
+        const links = cells.filter((cell): cell is Extract<PopupCell, { type: 'link' }> => cell.type === 'link');
+        expect(links.length).toBeGreaterThan(0);
+        for (const link of links) {
+            expect(getSafeHref(link.href)).toBe(link.href);
+        }
+        expect(cells.some((cell) => cell.type === 'link' && /^(javascript|data):/i.test(cell.href))).toBe(false);
+    });
+
+    it('keeps markup as the literal text of a cell', () => {
+        const tables = getProfileTables(hostile.file);
+        expect(tables.find((table) => table.title === 'Social accounts')?.rows[0].value).toEqual({
+            type: 'link',
+            text: 'https://social.example/<b>publisher</b>',
+            href: 'https://social.example/%3Cb%3Epublisher%3C/b%3E',
+        });
+        expect(tables.find((table) => table.title === 'Contact')?.rows[0].value).toEqual({
+            type: 'link',
+            text: 'https://publisher.example/"><script>alert(1)</script>',
+            href: 'https://publisher.example/%22%3E%3Cscript%3Ealert(1)%3C/script%3E',
+        });
+    });
+
+    it('shows parser messages about hostile lines as text', () => {
+        const cells = getCells(getDiagnosticsTables(hostile.diagnostics));
+        expect(cells.length).toBeGreaterThan(0);
+        expect(cells.every((cell) => cell.type === 'text')).toBe(true);
+        expect(cells.some((cell) => cell.type === 'text' && cell.text.includes('<a href="javascript:alert(1)">'))).toBe(true);
+    });
+
+    it('shows validator statuses as badges without trusting their values', () => {
+        const tables = getValidationTables([
+            { domain: 'publisher.example', status: 'found', message: 'ok' },
+            { domain: 'evil.example', status: '<img src=x onerror=alert(1)>', message: '<script>alert(1)</script>' },
+        ]);
+        expect(tables[0].rows[0].value).toEqual({ type: 'badge', text: 'found', level: 'valid' });
+        expect(tables[1].rows[0].value).toEqual({ type: 'badge', text: '<img src=x onerror=alert(1)>', level: 'warning' });
+        expect(tables[1].rows[1].value).toEqual({ type: 'text', text: '<script>alert(1)</script>' });
+    });
+});
+
+describe('getSignatureTables', () => {
+    it('shows the status with the level of the toolbar verdict', () => {
+        const checks: SignatureCheck[] = [
+            { status: 'signed', message: '' },
+            { status: 'unsigned', message: '' },
+            { status: 'unsigned', message: '', previousSigner: 'council.example' },
+            { status: 'unverifiable', message: '' },
+            { status: 'bad-signature', message: '' },
+        ];
+        const badges = checks.map((check) => getSignatureTables(check)[0].rows[0].value);
+        expect(badges.map((badge) => badge.type === 'badge' && badge.level)).toEqual(['valid', 'valid', 'warning', 'warning', 'invalid']);
+    });
+});
@@ -0,0 +1,56 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import { getPublisherProfile } from '../src/profile';
+import { parseTrustTxt } from '../src/trust-txt';
+
+describe('getPublisherProfile', () => {
+    it('groups every declared field by type', () => {
+        const { file } = parseTrustTxt([
+            'belongto=https://association.example',
+            'control=https://local.example',
+            'vendor=https://cms.example',
+            'social=https://social.example/publisher',
+            'disclosure=https://publisher.example/ethics',
+            'contact=newsroom@publisher.example',
+            'datatrainingallowed=yes',
+        ].join('\n'));
+        const profile = getPublisherProfile(file);
+        expect(profile.map((group) => group.title)).toEqual([
+            'Contact',
+            'Organization',
+            'Business',
+            'Social accounts',
+            'Data use',
+        ]);
+        expect(profile[1].fields.map((field) => field.variable)).toEqual(['control', 'belongto']);
+        expect(profile[4].fields[0].values).toEqual([{ text: 'Yes' }]);
+    });
+
+    it('links contacts with the right scheme', () => {
+        const { file } = parseTrustTxt([
+            'contact=newsroom@publisher.example',
+            'contact=mailto:tips@publisher.example',
+            'contact=+1 (555) 010-0000',
+            'contact=https://publisher.example/contact',
+        ].join('\n'));
+        expect(getPublisherProfile(file)[0].fields[0].values).toEqual([
+            { text: 'newsroom@publisher.example', href: 'mailto:newsroom@publisher.example' },
+            { text: 'tips@publisher.example', href: 'mailto:tips@publisher.example' },
+            { text: '+1 (555) 010-0000', href: 'tel:+15550100000' },
+            { text: 'https://publisher.example/contact', href: 'https://publisher.example/contact' },
+        ]);
+    });
+
+    it('only shows data use for an empty file', () => {
+        const { file } = parseTrustTxt('');
+        expect(getPublisherProfile(file)).toEqual([
+            {
+                title: 'Data use',
+                fields: [{ variable: 'datatrainingallowed', label: 'AI training allowed', values: [{ text: 'No' }] }],
+            },
+        ]);
+    });
+});
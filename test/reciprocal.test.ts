@@ -0,0 +1,52 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import { checkCounterpart, getRelationshipLevel, verifyRelationship } from '../src/reciprocal';
+import { emptyTrustTxtFile, type TrustTxtFile } from '../src/trust-txt';
+
+const file = (entries: Partial<TrustTxtFile>): TrustTxtFile => ({ ...emptyTrustTxtFile(), ...entries });
+
+describe('checkCounterpart', () => {
+    it('confirms a relation declared from both sides', () => {
+        const check = checkCounterpart('publisher.example', 'belongto', 'association.example', file({ member: ['https://www.publisher.example'] }));
+        expect(check).toMatchObject({ state: 'confirmed', message: 'association.example declares member=publisher.example' });
+        expect(getRelationshipLevel(check)).toBe('valid');
+    });
+
+    it('contradicts a relation the other side claims for itself', () => {
+        const check = checkCounterpart('publisher.example', 'control', 'outlet.example', file({ control: ['https://publisher.example'] }));
+        expect(check).toMatchObject({ state: 'contradicted', message: 'outlet.example declares control=publisher.example instead of controlledby=publisher.example' });
+        expect(getRelationshipLevel(check)).toBe('invalid');
+    });
+
+    it('contradicts a control claim over an organization controlled by someone else', () => {
+        const check = checkCounterpart('publisher.example', 'control', 'outlet.example', file({ controlledby: ['https://owner.example'] }));
+        expect(check).toMatchObject({ state: 'contradicted', message: 'outlet.example declares a different controlling organization' });
+        expect(getRelationshipLevel(check)).toBe('invalid');
+    });
+
+    it('reports a relation the other side does not mention as one-sided', () => {
+        const check = checkCounterpart('publisher.example', 'vendor', 'cms.example', file({ customer: ['https://other.example'] }));
+        expect(check).toMatchObject({ state: 'one-sided', message: 'cms.example does not declare customer=publisher.example' });
+        expect(getRelationshipLevel(check)).toBe('warning');
+    });
+});
+
+describe('verifyRelationship', () => {
+    it('reports a counterpart that cannot be downloaded as unreachable', async () => {
+        const requested: string[] = [];
+        const check = await verifyRelationship('publisher.example', 'belongto', 'association.example', async (trustUri) => {
+            requested.push(trustUri);
+            return new Error('HTTP 404');
+        });
+        expect(requested).toEqual(['trust://association.example!']);
+        expect(check).toMatchObject({ state: 'unreachable', message: 'Could not fetch the trust.txt file of association.example: HTTP 404' });
+        expect(getRelationshipLevel(check)).toBe('warning');
+    });
+
+    it('treats a relation that was not checked as valid', () => {
+        expect(getRelationshipLevel(undefined)).toBe('valid');
+    });
+});
@@ -0,0 +1,53 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import { type storedTrustResult } from '../src/background';
+import { getResultListRows } from '../src/result-list';
+
+describe('getResultListRows', () => {
+    const results: { [trustUri: string]: storedTrustResult } = {
+        'trust://publisher.example!': {
+            type: 'account',
+            name: 'Publisher',
+            baseurl: 'publisher.example',
+            version: 'trust.txt-draft00',
+            account: { account: 'publisher', platform: 'Social' },
+            source: 'https://www.publisher.example/trust.txt',
+            checkedAt: 1000,
+        },
+        'trust://network.example!': {
+            type: 'multiple',
+            list: [
+                { domain: 'a.example', status: 'found', message: '' },
+                { domain: 'b.example', status: 'not found', message: 'no controlledby entry' },
+            ],
+            checkedAt: 3000,
+        },
+        'trust://unlisted.example!': { type: 'notFound', baseurl: 'trust://unlisted.example!', checkedAt: 2000 },
+        'trust://offline.example!': { type: 'error', baseurl: 'trust://offline.example!', message: 'timed out' },
+    };
+
+    it('lists failed lookups too, most recently checked first', () => {
+        expect(getResultListRows(results).map((row) => [row.trustUri, row.status])).toEqual([
+            ['trust://network.example!', 'Warning'],
+            ['trust://unlisted.example!', 'Not listed'],
+            ['trust://publisher.example!', 'Verified'],
+            ['trust://offline.example!', 'Error'],
+        ]);
+    });
+
+    it('names the matched account and the trust.txt file checked', () => {
+        const [network, unlisted, publisher, offline] = getResultListRows(results);
+        expect(publisher).toMatchObject({
+            account: 'Social: publisher',
+            source: 'https://www.publisher.example/trust.txt',
+            checkedAt: 1000,
+        });
+        expect(unlisted.account).toBeUndefined();
+        expect(offline.source).toBe('https://offline.example/.well-known/trust.txt');
+        expect(network.list.map((item) => item.domain)).toEqual(['a.example', 'b.example']);
+        expect(publisher.list).toEqual([]);
+    });
+});
@@ -0,0 +1,117 @@
+// @vitest-environment happy-dom
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { DEFAULT_EXTRACTORS, type TrustUriMatch } from '../src/extractors';
+import DomScanner from '../src/scanner';
+import { installLayout, settle } from './fixtures/dom';
+
+let scanner: DomScanner;
+let found: TrustUriMatch[];
+let removed: Node[];
+let changed: Node[];
+
+beforeEach(() => {
+    installLayout();
+    document.body.innerHTML = '';
+    found = [];
+    removed = [];
+    changed = [];
+    scanner = new DomScanner(
+        DEFAULT_EXTRACTORS,
+        (match) => found.push(match),
+        (node) => removed.push(node),
+        (node) => changed.push(node),
+    );
+});
+
+function addParagraph(text: string): HTMLParagraphElement {
+    const paragraph = document.createElement('p');
+    paragraph.textContent = text;
+    return document.body.appendChild(paragraph);
+}
+
+afterEach(() => {
+    scanner.stop();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('DomScanner', () => {
+    it('reports every trust URI of a text node without splitting it', async () => {
+        const paragraph = addParagraph('Member of trust://news.example! and trust://press.example! since 2020');
+        const text = paragraph.firstChild as Text;
+        scanner.start();
+        await settle();
+        expect(found.map((match) => match.trustUri)).toEqual(['trust://news.example!', 'trust://press.example!']);
+        expect(found.every((match) => match.node === text)).toBe(true);
+        // the page keeps its text node as it was
+        expect(paragraph.childNodes.length).toBe(1);
+        expect(text.data).toBe('Member of trust://news.example! and trust://press.example! since 2020');
+    });
+});
+
+describe('DomScanner queue', () => {
+    let idle: IdleRequestCallback[];
+
+    // runs the next idle slice, which ends once the given time has been used
+    const runIdleSlice = (timeRemaining: number) =>
+        idle.shift()?.({ didTimeout: false, timeRemaining: () => timeRemaining });
+
+    beforeEach(() => {
+        idle = [];
+        vi.stubGlobal('requestIdleCallback', (callback: IdleRequestCallback) => idle.push(callback));
+        vi.stubGlobal('cancelIdleCallback', () => {
+            idle = [];
+        });
+        scanner.start();
+        runIdleSlice(50);
+    });
+
+    it('scans added nodes in idle slices, at least one per slice', async () => {
+        addParagraph('trust://a.example!');
+        addParagraph('trust://b.example!');
+        addParagraph('trust://c.example!');
+        await settle();
+        expect(found).toEqual([]);
+
+        runIdleSlice(0);
+        expect(found.map((match) => match.trustUri)).toEqual(['trust://a.example!']);
+        // the rest waits for the next idle period
+        expect(idle).toHaveLength(1);
+
+        runIdleSlice(50);
+        expect(found.map((match) => match.trustUri)).toEqual(['trust://a.example!', 'trust://b.example!', 'trust://c.example!']);
+        expect(idle).toHaveLength(0);
+    });
+
+    it('reports removed nodes at once and does not scan them afterwards', async () => {
+        const paragraph = addParagraph('trust://a.example!');
+        await settle();
+        paragraph.remove();
+        await settle();
+        expect(removed).toEqual([paragraph]);
+
+        runIdleSlice(50);
+        expect(found).toEqual([]);
+    });
+
+    it('rescans only the element whose attribute changed', async () => {
+        const paragraph = document.createElement('p');
+        paragraph.innerHTML = 'trust://a.example! <a href="https://a.example/">About</a>';
+        const link = paragraph.querySelector('a') as HTMLAnchorElement;
+        document.body.appendChild(paragraph);
+        await settle();
+        runIdleSlice(50);
+        expect(found.map((match) => match.trustUri)).toEqual(['trust://a.example!']);
+
+        link.setAttribute('href', 'trust://b.example!');
+        await settle();
+        expect(changed).toEqual([link]);
+        runIdleSlice(50);
+        expect(found.map((match) => match.trustUri)).toEqual(['trust://a.example!', 'trust://b.example!']);
+        expect(found[1]).toMatchObject({ node: link, source: { kind: 'href' } });
+    });
+});
@@ -0,0 +1,64 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_SETTINGS, getValidatorEndpoint, normalizeSettings, validateSettings } from '../src/settings';
+
+const rule = { name: 'Forum', host: 'forum.example', path: '/u/{account}' };
+
+describe('normalizeSettings', () => {
+    it('uses the defaults for missing settings', () => {
+        expect(normalizeSettings({})).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('keeps valid stored values', () => {
+        const settings = normalizeSettings({ autoVerifyTrustUris: false, fetchTimeout: 10000, iconStyle: 'compact' });
+        expect(settings.autoVerifyTrustUris).toBe(false);
+        expect(settings.fetchTimeout).toBe(10000);
+        expect(settings.iconStyle).toBe('compact');
+    });
+
+    it('replaces invalid values by their defaults', () => {
+        const settings = normalizeSettings({ fetchTimeout: 10, historyLimit: 2.5, iconStyle: 'large', scanFrames: 'yes' });
+        expect(settings.fetchTimeout).toBe(DEFAULT_SETTINGS.fetchTimeout);
+        expect(settings.historyLimit).toBe(DEFAULT_SETTINGS.historyLimit);
+        expect(settings.iconStyle).toBe('standard');
+        expect(settings.scanFrames).toBe(true);
+    });
+
+    it('drops invalid platforms only', () => {
+        const settings = normalizeSettings({ platformRules: [rule, { name: 'Broken', host: '', path: '/u' }] });
+        expect(settings.platformRules).toEqual([rule]);
+    });
+
+    it('validates locally when the remote validator has no endpoint', () => {
+        expect(normalizeSettings({ validatorMode: 'remote' }).validatorMode).toBe('local');
+        expect(normalizeSettings({ validatorMode: 'remote', validatorEndpoint: 'http://validator.example' }).validatorMode).toBe('local');
+    });
+});
+
+describe('validateSettings', () => {
+    it('accepts the defaults', () => {
+        expect(validateSettings(DEFAULT_SETTINGS)).toEqual({});
+    });
+
+    it('reports each invalid setting', () => {
+        const errors = validateSettings({ ...DEFAULT_SETTINGS, fetchTimeout: NaN, cacheMaxAge: -1, validatorEndpoint: 'validator' });
+        expect(Object.keys(errors).sort()).toEqual(['cacheMaxAge', 'fetchTimeout', 'validatorEndpoint']);
+        expect(errors.fetchTimeout?.message).toContain('between 500 and 60000 ms');
+    });
+
+    it('requires an endpoint for the remote validator', () => {
+        const errors = validateSettings({ ...DEFAULT_SETTINGS, validatorMode: 'remote' });
+        expect(errors.validatorEndpoint?.message).toBe('The remote validator needs an endpoint');
+    });
+});
+
+describe('getValidatorEndpoint', () => {
+    it('returns the endpoint in remote mode only', () => {
+        const endpoint = 'https://validator.example/validate';
+        expect(getValidatorEndpoint({ ...DEFAULT_SETTINGS, validatorEndpoint: endpoint })).toBe('');
+        expect(getValidatorEndpoint({ ...DEFAULT_SETTINGS, validatorMode: 'remote', validatorEndpoint: endpoint })).toBe(endpoint);
+    });
+});
@@ -0,0 +1,53 @@
+// @vitest-environment happy-dom
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { SHADOW_ROOT_ATTACHED } from '../src/scanner';
+
+let attached: EventTarget[];
+const onAttached = (event: Event) => attached.push(event.composedPath()[0]);
+
+beforeEach(() => {
+    vi.resetModules();
+    attached = [];
+    document.addEventListener(SHADOW_ROOT_ATTACHED, onAttached);
+});
+
+afterEach(() => {
+    document.removeEventListener(SHADOW_ROOT_ATTACHED, onAttached);
+    vi.unstubAllGlobals();
+});
+
+describe('shadow-hook', () => {
+    it('reports open shadow roots attached in the page world', async () => {
+        await import('../src/shadow-hook');
+        const open = document.body.appendChild(document.createElement('div'));
+        const closed = document.body.appendChild(document.createElement('div'));
+        open.attachShadow({ mode: 'open' });
+        closed.attachShadow({ mode: 'closed' });
+        await Promise.resolve();
+        expect(attached).toEqual([open]);
+    });
+
+    it('hooks the page through wrappedJSObject when it runs in the isolated world', async () => {
+        const shadowRoot = {} as ShadowRoot;
+        const pageAttachShadow = vi.fn((_init: ShadowRootInit) => shadowRoot);
+        const page = { Element: { prototype: { attachShadow: pageAttachShadow } } };
+        const exportFunction = vi.fn((fn: Function) => fn);
+        vi.stubGlobal('wrappedJSObject', page);
+        vi.stubGlobal('exportFunction', exportFunction);
+        const isolatedAttachShadow = Element.prototype.attachShadow;
+
+        await import('../src/shadow-hook');
+        expect(exportFunction).toHaveBeenCalledWith(expect.any(Function), page);
+        expect(Element.prototype.attachShadow).toBe(isolatedAttachShadow);
+
+        const host = document.body.appendChild(document.createElement('div'));
+        expect(page.Element.prototype.attachShadow.call(host, { mode: 'open' })).toBe(shadowRoot);
+        expect(pageAttachShadow).toHaveBeenCalledWith({ mode: 'open' });
+        await Promise.resolve();
+        expect(attached).toEqual([host]);
+    });
+});
@@ -0,0 +1,80 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import { blueskyMatcher, normalizeAtprotoIdentifier } from '../src/bluesky';
+import { fediverseMatcher, normalizeFediverseHandle } from '../src/fediverse';
+import { parseTrustTxt } from '../src/trust-txt';
+
+describe('normalizeFediverseHandle', () => {
+    it('accepts the usual handle forms', () => {
+        expect(normalizeFediverseHandle('@News@Publisher.example')).toBe('news@publisher.example');
+        expect(normalizeFediverseHandle('acct:news@publisher.example')).toBe('news@publisher.example');
+        expect(normalizeFediverseHandle('news@publisher.example')).toBe('news@publisher.example');
+    });
+
+    it('rejects values that are not handles', () => {
+        expect(normalizeFediverseHandle('@news')).toBeUndefined();
+        expect(normalizeFediverseHandle('https://publisher.example/@news')).toBeUndefined();
+    });
+});
+
+describe('fediverseMatcher', () => {
+    it('reads the handle from profile URLs on the home instance', () => {
+        const expected = { platform: 'Fediverse', account: 'news@mastodon.example' };
+        expect(fediverseMatcher.canonicalize('https://mastodon.example/@News')).toEqual(expected);
+        expect(fediverseMatcher.canonicalize('https://mastodon.example/users/news/')).toEqual(expected);
+        expect(fediverseMatcher.canonicalize('@news@mastodon.example')).toEqual(expected);
+    });
+
+    it('ignores remote profiles and other pages', () => {
+        expect(fediverseMatcher.canonicalize('https://other.example/@news@mastodon.example')).toBeUndefined();
+        expect(fediverseMatcher.canonicalize('https://mastodon.example/@news/109')).toBeUndefined();
+        expect(fediverseMatcher.canonicalize('https://mastodon.example/about')).toBeUndefined();
+    });
+
+    it('ignores profile URLs that cannot be decoded', () => {
+        expect(fediverseMatcher.canonicalize('https://mastodon.example/@%E0%A4%A')).toBeUndefined();
+    });
+
+    it('ignores /@user profiles of platforms that are not instances', () => {
+        expect(fediverseMatcher.canonicalize('https://www.youtube.com/@news')).toBeUndefined();
+        expect(fediverseMatcher.canonicalize('https://m.youtube.com/@news')).toBeUndefined();
+        expect(fediverseMatcher.canonicalize('https://medium.com/@news')).toBeUndefined();
+    });
+});
+
+describe('normalizeAtprotoIdentifier', () => {
+    it('normalizes handles and keeps DIDs', () => {
+        expect(normalizeAtprotoIdentifier('@Publisher.Example')).toBe('publisher.example');
+        expect(normalizeAtprotoIdentifier('did:plc:Abc123')).toBe('did:plc:Abc123');
+        expect(normalizeAtprotoIdentifier('did:web:publisher.example')).toBe('did:web:publisher.example');
+    });
+
+    it('rejects values that are neither', () => {
+        expect(normalizeAtprotoIdentifier('publisher')).toBeUndefined();
+        expect(normalizeAtprotoIdentifier('did:key:abc')).toBeUndefined();
+    });
+});
+
+describe('blueskyMatcher', () => {
+    it('reads the identifier from profile URLs and at:// URIs', () => {
+        expect(blueskyMatcher.canonicalize('https://bsky.app/profile/Publisher.example/')).toEqual({ platform: 'Bluesky', account: 'publisher.example' });
+        expect(blueskyMatcher.canonicalize('at://did:plc:abc123')).toEqual({ platform: 'Bluesky', account: 'did:plc:abc123' });
+        expect(blueskyMatcher.canonicalize('https://bsky.app/profile/publisher.example/post/1')).toBeUndefined();
+        expect(blueskyMatcher.canonicalize('https://example.com/profile/publisher.example')).toBeUndefined();
+    });
+
+    it('ignores profile URLs that cannot be decoded', () => {
+        expect(blueskyMatcher.canonicalize('https://bsky.app/profile/%E0%A4%A')).toBeUndefined();
+    });
+});
+
+describe('social handles in trust.txt', () => {
+    it('keeps handles that are not web URLs', () => {
+        const { file, diagnostics } = parseTrustTxt('social=@news@publisher.example\nsocial=at://publisher.example\nsocial=@news');
+        expect(file.social).toEqual(['@news@publisher.example', 'at://publisher.example']);
+        expect(diagnostics.map((d) => d.code)).toEqual(['invalid-url']);
+    });
+});
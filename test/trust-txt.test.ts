@@ -0,0 +1,94 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import { parseTrustTxt } from '../src/trust-txt';
+
+/**
+ * Parses the lines of a trust.txt file and returns its diagnostics as [line, severity, code] triples.
+ */
+function diagnose(...lines: string[]): Array<[number, string, string]> {
+    return parseTrustTxt(lines.join('\n')).diagnostics.map((d) => [d.line, d.severity, d.code]);
+}
+
+describe('parseTrustTxt diagnostics', () => {
+    it('reports lines without a variable', () => {
+        expect(diagnose('member=https://a.example', 'not a pair', '=https://b.example')).toEqual([
+            [2, 'error', 'malformed-line'],
+            [3, 'error', 'malformed-line'],
+        ]);
+    });
+
+    it('reports unknown variables and keeps the known ones', () => {
+        const { file, diagnostics } = parseTrustTxt('# header\nmembers=https://a.example\nmember=https://b.example');
+        expect(diagnostics.map((d) => [d.line, d.severity, d.code])).toEqual([[2, 'warning', 'unknown-variable']]);
+        expect(file.member).toEqual(['https://b.example']);
+    });
+
+    it('reports empty values', () => {
+        expect(diagnose('', 'member=', 'contact= # no one')).toEqual([
+            [2, 'error', 'empty-value'],
+            [3, 'error', 'empty-value'],
+        ]);
+    });
+
+    it('reports malformed URLs and drops them', () => {
+        const { file, diagnostics } = parseTrustTxt([
+            'member=a.example',
+            'vendor=ftp://cms.example',
+            'customer=http://client.example',
+        ].join('\n'));
+        expect(diagnostics.map((d) => [d.line, d.severity, d.code])).toEqual([
+            [1, 'error', 'invalid-url'],
+            [2, 'error', 'invalid-url'],
+            [3, 'warning', 'non-https-url'],
+        ]);
+        expect(file.member).toEqual([]);
+        expect(file.vendor).toEqual([]);
+        expect(file.customer).toEqual(['http://client.example']);
+    });
+
+    it('reports contacts that are not an address, a number or a URL', () => {
+        const { file, diagnostics } = parseTrustTxt([
+            'contact=news@publisher.example',
+            'contact=+1 (555) 010-0000',
+            'contact=the newsroom',
+            'contact=https://',
+        ].join('\n'));
+        expect(diagnostics.map((d) => [d.line, d.severity, d.code])).toEqual([
+            [3, 'warning', 'invalid-contact'],
+            [4, 'error', 'invalid-url'],
+        ]);
+        expect(file.contact).toEqual(['news@publisher.example', '+1 (555) 010-0000']);
+    });
+
+    it('reports invalid, duplicate and conflicting datatrainingallowed values', () => {
+        expect(diagnose(
+            'datatrainingallowed=maybe',
+            'datatrainingallowed=yes',
+            'datatrainingallowed=YES',
+            'datatrainingallowed=no',
+        )).toEqual([
+            [1, 'error', 'invalid-datatrainingallowed'],
+            [3, 'warning', 'duplicate-datatrainingallowed'],
+            [4, 'error', 'conflicting-datatrainingallowed'],
+        ]);
+    });
+
+    it('names the line of the first declaration', () => {
+        const { file, diagnostics } = parseTrustTxt('\ndatatrainingallowed=yes\n\ndatatrainingallowed=no');
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0].line).toBe(4);
+        expect(diagnostics[0].message).toContain('line 2');
+        // conflicting declarations resolve to the most restrictive value
+        expect(file.datatrainingallowed).toBe(false);
+    });
+
+    it('counts lines of CRLF files with a byte order mark', () => {
+        expect(diagnose('\uFEFFmember=https://a.example\r', 'bogus=1\r', 'member=\r')).toEqual([
+            [2, 'warning', 'unknown-variable'],
+            [3, 'error', 'empty-value'],
+        ]);
+    });
+});
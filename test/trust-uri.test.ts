@@ -0,0 +1,39 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import { getTrustTxtUrl, parseTrustUri } from '../src/trust-uri';
+
+describe('parseTrustUri', () => {
+    it('parses a trust URI without a path', () => {
+        expect(parseTrustUri('trust://Example.com!')).toEqual({ host: 'example.com' });
+        expect(parseTrustUri('trust://example.com')).toEqual({ host: 'example.com' });
+        expect(parseTrustUri('trust://example.com/!')).toEqual({ host: 'example.com' });
+    });
+
+    it('parses the path as an entry selector', () => {
+        expect(parseTrustUri('trust://example.com/social!')).toEqual({ host: 'example.com', selector: 'social' });
+        expect(parseTrustUri('trust://example.com/Member/')).toEqual({ host: 'example.com', selector: 'member' });
+    });
+
+    it('rejects unknown and nested paths', () => {
+        expect(parseTrustUri('trust://example.com/foo!')).toBeInstanceOf(Error);
+        expect(parseTrustUri('trust://example.com/social/extra!')).toBeInstanceOf(Error);
+        expect((parseTrustUri('trust://example.com/foo!') as Error).message).toContain('Invalid trust URI path "/foo"');
+    });
+
+    it('rejects malformed URIs', () => {
+        expect(parseTrustUri('https://example.com')).toBeInstanceOf(Error);
+        expect(parseTrustUri('trust://')).toBeInstanceOf(Error);
+        expect(parseTrustUri('trust://exa mple.com!')).toBeInstanceOf(Error);
+        expect(parseTrustUri('trust://example..com!')).toBeInstanceOf(Error);
+    });
+});
+
+describe('getTrustTxtUrl', () => {
+    it('always points at the root of the host', () => {
+        const trustUri = parseTrustUri('trust://example.com/social!');
+        expect(getTrustTxtUrl(trustUri as Exclude<typeof trustUri, Error>)).toBe('https://example.com/.well-known/trust.txt');
+    });
+});
@@ -0,0 +1,39 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import { emptyTrustTxtFile, type ParsedTrustTxt } from '../src/trust-txt';
+import { validateTrustTxt } from '../src/validator';
+
+const members = Array.from({ length: 10 }, (_, index) => `https://member${index}.example`);
+const file = { ...emptyTrustTxtFile(), member: members };
+
+describe('validateTrustTxt', () => {
+    it('downloads a few referenced files at a time and skips the organizations past the limit', async () => {
+        let active = 0;
+        let mostActive = 0;
+        const downloaded: string[] = [];
+        const download = async (trustUri: string): Promise<ParsedTrustTxt> => {
+            downloaded.push(trustUri);
+            mostActive = Math.max(mostActive, ++active);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            active--;
+            return { file: { ...emptyTrustTxtFile(), belongto: ['https://association.example'] }, diagnostics: [] };
+        };
+
+        const rows = await validateTrustTxt('association.example', file, download, ['member'], { maxDomains: 6, concurrency: 2 });
+        expect(mostActive).toBe(2);
+        expect(downloaded).toHaveLength(6);
+        expect(rows.map((row) => row.status)).toEqual([...Array(6).fill('found'), ...Array(4).fill('skipped')]);
+        expect(rows.map((row) => row.domain)).toEqual(members.map((member) => new URL(member).hostname));
+        expect(rows[6].message).toBe('Not checked: the trust.txt file of association.example references more than 6 organizations');
+    });
+
+    it('checks at most 50 organizations by default', async () => {
+        const many = { ...emptyTrustTxtFile(), member: Array.from({ length: 60 }, (_, index) => `https://m${index}.example`) };
+        const rows = await validateTrustTxt('association.example', many, async () => new Error('offline'), ['member']);
+        expect(rows.filter((row) => row.status === 'error')).toHaveLength(50);
+        expect(rows.filter((row) => row.status === 'skipped')).toHaveLength(10);
+    });
+});
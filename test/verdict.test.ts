@@ -0,0 +1,128 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import { aggregateResults, getActionTitle, getBadgeText, getResultLevel } from '../src/verdict';
+import { type lookupTrustUriResult } from '../src/xpoc-lib';
+
+const account = (name: string): lookupTrustUriResult => ({
+    type: 'account',
+    name,
+    baseurl: name,
+    version: 'trust.txt-draft00',
+    account: { account: 'publisher', platform: 'Social' },
+});
+
+const notFound: lookupTrustUriResult = { type: 'notFound', baseurl: 'trust://publisher.example!' };
+
+describe('getResultLevel', () => {
+    it('combines matches, relationships and signatures', () => {
+        expect(getResultLevel(account('publisher.example'))).toBe('valid');
+        expect(getResultLevel({
+            ...account('publisher.example'),
+            relationship: { from: 'a.example', to: 'b.example', relation: 'member', state: 'one-sided', message: '' },
+        } as lookupTrustUriResult)).toBe('warning');
+        expect(getResultLevel({
+            ...account('publisher.example'),
+            signature: { status: 'bad-signature', message: '' },
+        } as lookupTrustUriResult)).toBe('invalid');
+        expect(getResultLevel({
+            ...account('publisher.example'),
+            signature: { status: 'unverifiable', message: '' },
+        } as lookupTrustUriResult)).toBe('warning');
+        expect(getResultLevel(notFound)).toBe('invalid');
+    });
+
+    it('rates same-domain validation rows', () => {
+        const row = (status: string) => ({ status, domain: 'a.example', message: '' });
+        expect(getResultLevel({ type: 'multiple', list: [row('found')] })).toBe('valid');
+        expect(getResultLevel({ type: 'multiple', list: [row('found'), row('not found')] })).toBe('warning');
+        expect(getResultLevel({ type: 'multiple', list: [row('error')] })).toBe('invalid');
+    });
+});
+
+describe('aggregateResults', () => {
+    it('is unknown without results', () => {
+        expect(aggregateResults({}).level).toBe('unknown');
+    });
+
+    it('is valid when every URI verifies for the same publisher', () => {
+        const verdict = aggregateResults({
+            'trust://publisher.example!': account('publisher.example'),
+            'trust://www.publisher.example/social!': account('publisher.example'),
+        });
+        expect(verdict).toMatchObject({ level: 'valid', conflicts: [] });
+        expect(verdict.entries).toHaveLength(2);
+    });
+
+    it('flags pages where one URI verifies and another fails', () => {
+        const verdict = aggregateResults({
+            'trust://publisher.example!': account('publisher.example'),
+            'trust://publisher.example/member!': notFound,
+        });
+        expect(verdict.level).toBe('warning');
+        expect(verdict.conflicts).toEqual([
+            expect.objectContaining({ kind: 'mixed-results', trustUris: ['trust://publisher.example/member!'] }),
+        ]);
+    });
+
+    it('flags pages that name different publishers', () => {
+        const verdict = aggregateResults({
+            'trust://publisher.example!': account('publisher.example'),
+            'trust://other.example!': account('other.example'),
+        });
+        expect(verdict.level).toBe('warning');
+        expect(verdict.conflicts.map((conflict) => conflict.kind)).toEqual(['multiple-publishers']);
+    });
+
+    it('stays invalid when every URI fails', () => {
+        const verdict = aggregateResults({
+            'trust://publisher.example!': notFound,
+            'trust://broken!': { type: 'error', baseurl: 'trust://broken!', message: 'Invalid', invalidUri: true },
+        });
+        expect(verdict).toMatchObject({ level: 'invalid', conflicts: [] });
+    });
+});
+
+describe('toolbar state', () => {
+    const verdict = aggregateResults({
+        'trust://publisher.example!': account('publisher.example'),
+        'trust://www.publisher.example/social!': account('publisher.example'),
+        'trust://publisher.example/member!': notFound,
+    });
+
+    it('shows the verified URIs out of all of them', () => {
+        expect(getBadgeText(verdict)).toBe('2/3');
+        expect(getBadgeText(aggregateResults({}))).toBe('');
+    });
+
+    it('shows the count and symbol of a level shared by every URI', () => {
+        expect(getBadgeText(aggregateResults({ 'trust://publisher.example!': account('publisher.example') }))).toBe('1✓');
+        expect(getBadgeText(aggregateResults({
+            'trust://publisher.example!': notFound,
+            'trust://publisher.example/member!': notFound,
+        }))).toBe('2✗');
+    });
+
+    it('fits the badge in four characters', () => {
+        const results: { [trustUri: string]: lookupTrustUriResult } = {};
+        for (let i = 0; i < 10; i++) {
+            results[`trust://publisher.example/${i}!`] = account('publisher.example');
+        }
+        expect(getBadgeText(aggregateResults(results))).toBe('10✓');
+        results['trust://publisher.example/member!'] = notFound;
+        expect(getBadgeText(aggregateResults(results))).toBe('!');
+    });
+
+    it('describes the verdict and every URI', () => {
+        expect(getActionTitle(verdict).split('\n')).toEqual([
+            'The 3 trust URIs on this page disagree',
+            '2 verified, 1 failed',
+            '2 trust URIs verified but 1 failed',
+            'trust://publisher.example!: Social account publisher is listed by publisher.example',
+            'trust://www.publisher.example/social!: Social account publisher is listed by publisher.example',
+            'trust://publisher.example/member!: This page is not listed in the trust.txt file',
+        ]);
+    });
+});
@@ -0,0 +1,97 @@
+// @vitest-environment happy-dom
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { isStyleVisible, VisibilityQueue } from '../src/visibility';
+import { installLayout, intersect, settle } from './fixtures/dom';
+
+beforeEach(() => {
+    installLayout();
+    document.body.innerHTML = '';
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+/**
+ * Creates an element in an open shadow root, the way web components render their content.
+ */
+function createShadowElement(text: string): { host: HTMLElement; element: HTMLElement } {
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    const element = document.createElement('span');
+    element.textContent = text;
+    host.attachShadow({ mode: 'open' }).appendChild(element);
+    return { host, element };
+}
+
+describe('isStyleVisible', () => {
+    it('accepts elements in the shadow root of a connected host', () => {
+        const { element } = createShadowElement('trust://publisher.example!');
+        expect(isStyleVisible(element)).toBe(true);
+    });
+
+    it('rejects hidden and disconnected elements', () => {
+        const hidden = document.createElement('span');
+        hidden.style.visibility = 'hidden';
+        document.body.appendChild(hidden);
+        expect(isStyleVisible(hidden)).toBe(false);
+        expect(isStyleVisible(document.createElement('span'))).toBe(false);
+    });
+});
+
+describe('VisibilityQueue', () => {
+    it('runs the callback of a node in shadow DOM once it is near the viewport', () => {
+        const queue = new VisibilityQueue();
+        const { element } = createShadowElement('trust://publisher.example!');
+        const callback = vi.fn();
+        queue.whenVisible(element.firstChild as Node, 'trust://publisher.example!', callback);
+        expect(callback).not.toHaveBeenCalled();
+        expect(intersect(element)).toBe(true);
+        expect(callback).toHaveBeenCalledOnce();
+    });
+
+    it('parks a hidden node in shadow DOM until its style reveals it', async () => {
+        const queue = new VisibilityQueue();
+        const { element } = createShadowElement('trust://publisher.example!');
+        element.style.display = 'none';
+        const callback = vi.fn();
+        queue.whenVisible(element, 'trust://publisher.example!', callback);
+        intersect(element);
+        expect(callback).not.toHaveBeenCalled();
+        element.style.display = '';
+        await settle();
+        expect(callback).toHaveBeenCalledOnce();
+    });
+
+    it('checks a hidden node again only when it or an ancestor changes', async () => {
+        const queue = new VisibilityQueue();
+        const container = document.createElement('div');
+        container.className = 'collapsed';
+        container.style.display = 'none';
+        const element = document.createElement('span');
+        container.appendChild(element);
+        const other = document.createElement('div');
+        document.body.append(container, other);
+        const callback = vi.fn();
+        queue.whenVisible(element, 'trust://publisher.example!', callback);
+        intersect(element);
+        expect(callback).not.toHaveBeenCalled();
+
+        const getComputedStyle = vi.spyOn(window, 'getComputedStyle');
+        for (let i = 0; i < 10; i++) {
+            other.setAttribute('class', `frame-${i}`);
+        }
+        await settle();
+        expect(getComputedStyle).not.toHaveBeenCalled();
+
+        container.className = 'expanded';
+        container.style.display = '';
+        await settle();
+        expect(callback).toHaveBeenCalledOnce();
+    });
+});